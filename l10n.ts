@@ -29,7 +29,7 @@ export const MESSAGES = {
     TIP_SORT_AZ: "Sort all categories (A-Z)",
     TIP_TOGGLE_ALL: "Toggle collapse/expand for all categories",
     TIP_CLEAN_DONE: "Clean completed tasks",
-    CONFIRM_CLEAN_ALL: "Delete all completed tasks from all categories?",
+    CONFIRM_CLEAN_ALL: "Move all completed tasks from all categories to the archive?",
     TIP_ADD_TASK: "Add task",
     TIP_SORT_DATE: "Sort tasks by date",
     TIP_DELETE_CAT: "Delete category",
@@ -92,9 +92,6 @@ export const MESSAGES = {
     MENU_CHANGE_COLOR: "Change color",
     ERR_READ_SHARED: "Error reading shared file",
     ERR_SAVE_SHARED: "Error saving to shared file",
-    ERR_CLEAN_SHARED: "Error cleaning shared tasks",
-    ERR_DEL_SHARED_CAT: "Error deleting shared category",
-    ERR_DEL_SHARED_TASK: "Error deleting shared task",
     ERR_FILE_PICKER: "Error opening file picker",
     ERR_CREATE_FILE_MODAL: "Error creating file. Try using the Setup Modal",
     ERR_CREATE_FILE: "Error creating file: %s",
@@ -102,7 +99,192 @@ export const MESSAGES = {
     TIP_CREATE_FILE: "Create new JSON file",
     FMT_YEAR_MONTH_DAY: "Year-Month-Day (e.g. 2026-01-02)",
     FMT_DAY_MONTH_YEAR: "Day-Month-Year (e.g. 02-01-2026)",
-    MODAL_END_DATE: "End date"
+    MODAL_END_DATE: "End date",
+    ERR_LOCK_TIMEOUT: "Shared file is locked by another vault, try again",
+    SETTING_TOMBSTONE_RETENTION: "Keep deletion records for",
+    SETTING_TOMBSTONE_RETENTION_DESC: "In shared mode, deleted tasks and categories are remembered for this long so that other vaults cannot bring them back",
+    VAL_DAYS: "%s days",
+    ERR_SCHEMA_TOO_NEW: "Task data uses format version %s, but this plugin only understands up to version %s. Update the plugin before editing these tasks",
+    ERR_SHARED_BLOCKED: "The shared file is damaged. Changes are not saved until it is recovered",
+    ERR_NO_BACKUP: "No backup of the shared file was found",
+    ERR_RECOVERY_FAILED: "Recovery failed: %s",
+    NOTICE_SHARED_RECOVERED: "Shared file recovered",
+    MODAL_RECOVERY_TITLE: "Shared file is damaged",
+    MSG_RECOVERY_DESC: "%s could not be read safely. Saving is paused so nothing gets overwritten. Choose how to recover it:",
+    MSG_RECOVERY_QUARANTINE: "A copy of the damaged file was saved to %s",
+    MSG_AND_MORE_PROBLEMS: "And %s more problems",
+    BTN_REPAIR: "Repair",
+    BTN_RESTORE_BACKUP: "Restore from backup",
+    BTN_REINITIALIZE: "Reinitialize",
+    CONFIRM_REINITIALIZE: "Replace the shared file with an empty task list?",
+    SETTING_BACKUPS_HEADING: "Backups",
+    SETTING_BACKUP_INTERVAL: "Automatic backup",
+    SETTING_BACKUP_INTERVAL_DESC: "How often to snapshot your tasks. A snapshot is also taken before cleaning completed tasks or deleting a category",
+    SETTING_BACKUP_RETENTION: "Backups to keep",
+    SETTING_BACKUP_RETENTION_DESC: "Older backups are deleted automatically, separately for local and shared tasks",
+    VAL_HOURS: "Every %s hours",
+    MSG_NO_BACKUPS: "No backups yet",
+    MSG_BACKUP_SUMMARY: "%s categories, %s tasks (%s)",
+    BACKUP_REASON_SCHEDULED: "scheduled",
+    BACKUP_REASON_CLEAN: "before cleaning",
+    BACKUP_REASON_DELETE_CATEGORY: "before deleting a category",
+    BACKUP_REASON_RESTORE: "before restoring",
+    BTN_PREVIEW: "Preview",
+    MODAL_BACKUP_TITLE: "Backup from %s",
+    BTN_RESTORE_CATEGORY: "Restore category",
+    BTN_RESTORE_ALL: "Restore everything",
+    CONFIRM_RESTORE_CATEGORY: "Replace this category with its backed up version?",
+    CONFIRM_RESTORE_ALL: "Replace all current tasks with this backup?",
+    NOTICE_BACKUP_RESTORED: "Backup restored",
+    ERR_RESTORE_BACKUP: "Error restoring backup: %s",
+    SETTING_POLL_SHARED: "Check the shared file periodically",
+    SETTING_POLL_SHARED_DESC: "Enable if the shared file is on a network drive and changes from other vaults are not picked up",
+    LABEL_VAULT: "Vault file tasks",
+    NOTICE_CLEANED_VAULT: "Completed tasks cleaned (vault file)",
+    ERR_READ_VAULT_FILE: "Unable to read the task file %s; it will not be modified until it is fixed",
+    ERR_SAVE_VAULT_FILE: "Error saving the vault task file",
+    SETTING_VAULT_PATH: "Vault task file",
+    SETTING_VAULT_PATH_DESC: "Path of a JSON file inside this vault. It works on mobile and syncs like any other vault file.",
+    MSG_SHARED_DESKTOP_ONLY: "Files outside the vault can only be used in the desktop app. Use the vault task file instead.",
+    LABEL_SOURCE: "Task source",
+    SETTING_SOURCES_HEADING: "Shared sources",
+    SETTING_SOURCES_DESC: "Named JSON files shared between vaults. Each one appears in the source list of the view header.",
+    FIELD_SOURCE_NAME: "Name",
+    BTN_ADD_SOURCE: "Add shared source...",
+    TIP_REMOVE_SOURCE: "Remove this source (the file is kept)",
+    CONFIRM_REMOVE_SOURCE: "Remove the shared source \"%s\"? The file itself is not deleted.",
+    MENU_MOVE_TO: "Move to %s",
+    MENU_COPY_TO: "Copy to %s",
+    NOTICE_MOVED_TO: "Moved to %s",
+    NOTICE_COPIED_TO: "Copied to %s",
+    ERR_TRANSFER: "Could not transfer to %s; nothing was changed",
+    LABEL_ALL_SOURCES: "All sources",
+    COMMAND_UNDO: "Undo last task change",
+    COMMAND_REDO: "Redo task change",
+    BTN_UNDO: "Undo",
+    NOTICE_UNDONE: "Change undone",
+    NOTICE_REDONE: "Change redone",
+    NOTICE_NOTHING_TO_UNDO: "Nothing to undo",
+    NOTICE_NOTHING_TO_REDO: "Nothing to redo",
+    NOTICE_TASK_DELETED: "Task deleted",
+    NOTICE_CATEGORY_DELETED: "Category deleted",
+    COMMAND_OPEN_TRASH: "Open trash",
+    VIEW_TRASH_TEXT: "Task trash",
+    TIP_OPEN_TRASH: "Open trash",
+    MSG_TRASH_EMPTY: "The trash is empty",
+    BTN_EMPTY_TRASH: "Empty trash",
+    CONFIRM_EMPTY_TRASH: "Permanently delete everything in the trash?",
+    MSG_TRASH_CATEGORY: "Category with %s tasks, deleted %s",
+    MSG_TRASH_TASK: "From %s, deleted %s",
+    TIP_RESTORE_TRASH: "Restore",
+    TIP_DELETE_FOREVER: "Delete permanently",
+    NOTICE_TRASH_RESTORED: "Restored from trash",
+    SETTING_TRASH_RETENTION: "Empty trash after",
+    SETTING_TRASH_RETENTION_DESC: "Deleted tasks and categories stay in the trash this long before they are removed for good",
+    COMMAND_OPEN_ARCHIVE: "Open completed-task archive",
+    VIEW_ARCHIVE_TEXT: "Task archive",
+    TIP_OPEN_ARCHIVE: "Open archive",
+    PLACEHOLDER_SEARCH_ARCHIVE: "Search archived tasks",
+    OPT_ALL_CATEGORIES: "All categories",
+    FIELD_FROM: "From",
+    FIELD_TO: "To",
+    MSG_ARCHIVE_EMPTY: "No archived tasks",
+    MSG_ARCHIVE_ENTRY: "%s (%s), completed %s",
+    TIP_UNARCHIVE: "Move back to the task list",
+    NOTICE_UNARCHIVED: "Task moved back from the archive",
+    COMMAND_OPEN_ACTIVITY: "Open activity log",
+    VIEW_ACTIVITY_TEXT: "Activity log",
+    TIP_OPEN_ACTIVITY: "Activity log",
+    MSG_ACTIVITY_EMPTY: "No changes recorded yet. Changes to the vault file and shared files appear here.",
+    MSG_ACTIVITY_ENTRY: "%s, %s",
+    MSG_ACTIVITY_THIS_VAULT: "%s (this vault)",
+    MSG_ACTIVITY_MORE: "and %s more",
+    NOTICE_EXTERNAL_CHANGES: "%s changed by %s:",
+    ACTIVITY_TASK_ADDED: "Task \"%s\" added",
+    ACTIVITY_TASK_REMOVED: "Task \"%s\" deleted",
+    ACTIVITY_TASK_COMPLETED: "Task \"%s\" completed",
+    ACTIVITY_TASK_REOPENED: "Task \"%s\" reopened",
+    ACTIVITY_TASK_RENAMED: "Task \"%s\" renamed to \"%s\"",
+    ACTIVITY_TASK_EDITED: "Task \"%s\" edited",
+    ACTIVITY_CATEGORY_ADDED: "Category \"%s\" added",
+    ACTIVITY_CATEGORY_REMOVED: "Category \"%s\" deleted",
+    ACTIVITY_CATEGORY_RENAMED: "Category \"%s\" renamed to \"%s\"",
+    ACTIVITY_CATEGORY_EDITED: "Category \"%s\" edited",
+    MENU_ADD_SUBTASK: "Add subtask",
+    INPUT_NEW_SUBTASK: "New subtask...",
+    TIP_SUBTASK_PROGRESS: "%s of %s subtasks done",
+    TIP_DELETE_SUBTASK: "Delete subtask",
+    SETTING_AUTO_COMPLETE_PARENT: "Complete tasks with their subtasks",
+    SETTING_AUTO_COMPLETE_PARENT_DESC: "Check a task off automatically once all of its subtasks are done.",
+    PRIORITY_NONE: "None",
+    PRIORITY_LOW: "Low",
+    PRIORITY_MEDIUM: "Medium",
+    PRIORITY_HIGH: "High",
+    PRIORITY_URGENT: "Urgent",
+    FIELD_PRIORITY: "Priority",
+    MENU_PRIORITY: "Priority: %s",
+    TIP_SORT_TASKS: "Sort tasks",
+    MENU_SORT_PRIORITY: "Sort tasks by priority",
+    NOTICE_SORTED_PRIORITY: "Tasks sorted by priority",
+    PLACEHOLDER_TAG_FILTER: "Filter by tag...",
+    TIP_FILTER_TAG: "Show only tasks with this tag",
+    MENU_ADD_TAG: "Add tag",
+    MENU_REMOVE_TAG: "Remove tag #%s",
+    FIELD_TAG: "Tag",
+    ERR_INVALID_TAG: "Enter a tag name that is not only digits",
+    FIELD_START_DATE: "Start date",
+    FIELD_START_DATE_DESC: "Until this day the task is dimmed, or hidden when future tasks are hidden.",
+    ERR_START_AFTER_DUE: "The start date must not be after the due date",
+    LABEL_STARTS: "Starts %s",
+    TIP_SHOW_FUTURE: "Show tasks that have not started yet",
+    TIP_HIDE_FUTURE: "Hide tasks that have not started yet",
+    MENU_SORT_START_DATE: "Sort tasks by start date",
+    FIELD_DUE_TIME: "Due time",
+    FIELD_REMINDERS: "Reminders",
+    FIELD_REMINDERS_DESC: "Without a due time, reminders count from 9:00 on the due date.",
+    REMINDER_AT_DUE: "At due time",
+    REMINDER_MINUTES_BEFORE: "%s min before",
+    REMINDER_HOURS_BEFORE: "%s h before",
+    REMINDER_DAYS_BEFORE: "%s day(s) before",
+    ERR_DUE_DATE_REQ: "A due time or reminder needs a due date",
+    NOTICE_REMINDER: "Reminder: %s (due %s)",
+    BTN_SNOOZE_10: "Snooze 10 min",
+    BTN_SNOOZE_HOUR: "Snooze 1 hour",
+    BTN_SNOOZE_DAY: "Tomorrow",
+    SETTING_SYSTEM_NOTIFICATIONS: "System notifications",
+    SETTING_SYSTEM_NOTIFICATIONS_DESC: "Show reminders as system notifications too, not only inside Obsidian.",
+    TIP_START_TIMER: "Start timer",
+    TIP_STOP_TIMER: "Stop timer",
+    COMMAND_TIME_REPORT: "Time report",
+    MSG_REPORT_EMPTY: "No time recorded in this period.",
+    LABEL_TOTAL: "Total",
+    BTN_EXPORT_CSV: "Export as CSV",
+    NOTICE_REPORT_EXPORTED: "Time report saved to %s",
+    ERR_EXPORT_REPORT: "Could not export the time report: %s",
+    MENU_ADD_BLOCKER: "Blocked by...",
+    MENU_REMOVE_BLOCKER: "No longer blocked by \"%s\"",
+    PLACEHOLDER_CHOOSE_BLOCKER: "Task that must be done first...",
+    MSG_BLOCKED_BY: "Blocked by: %s",
+    ERR_BLOCKER_CYCLE: "That task already waits on this one, directly or indirectly",
+    NOTICE_UNBLOCKED: "\"%s\" is no longer blocked",
+    PROBLEM_ROOT_NOT_OBJECT: "the file does not contain an object",
+    PROBLEM_NOT_A_LIST: "\"%s\" is not a list",
+    PROBLEM_CATEGORY_LABEL: "category #%s",
+    PROBLEM_TASK_LABEL: "task #%s of category #%s",
+    PROBLEM_SUBTASK_LABEL: "subtask #%s of %s",
+    PROBLEM_NOT_OBJECT: "%s is not an object",
+    PROBLEM_NO_ID: "%s has no id",
+    PROBLEM_NO_NAME: "%s has no name",
+    PROBLEM_NO_TASK_LIST: "%s has no task list",
+    PROBLEM_NO_TEXT: "%s has no text",
+    PROBLEM_NO_ID_OR_TEXT: "%s has no id or text",
+    PROBLEM_INVALID_COMPLETION: "%s has an invalid completion state",
+    PROBLEM_INVALID_DUE_DATE: "%s has an invalid due date",
+    PROBLEM_INVALID_START_DATE: "%s has an invalid start date",
+    PROBLEM_INVALID_EXDATES: "%s has invalid skipped dates",
+    PROBLEM_INVALID_SUBTASKS: "%s has an invalid subtask list",
+    PROBLEM_INVALID_JSON: "invalid JSON (%s)",
+    NOTICE_CLEANED_ALL: "%s completed tasks cleaned"
   },
   fr: {
     COLOR_DEFAULT: "Par défaut",
@@ -134,7 +316,7 @@ COLOR_GREY: "Gris",
     TIP_SORT_AZ: "Trier les catégories (A-Z)",
     TIP_TOGGLE_ALL: "Tout replier/déplier",
     TIP_CLEAN_DONE: "Nettoyer les tâches terminées",
-    CONFIRM_CLEAN_ALL: "Supprimer toutes les tâches terminées de toutes les catégories ?",
+    CONFIRM_CLEAN_ALL: "Déplacer toutes les tâches terminées de toutes les catégories vers les archives ?",
     TIP_ADD_TASK: "Ajouter une tâche",
     TIP_SORT_DATE: "Trier par date",
     TIP_DELETE_CAT: "Supprimer la catégorie",
@@ -197,9 +379,6 @@ COLOR_GREY: "Gris",
     MENU_CHANGE_COLOR: "Changer la couleur",
     ERR_READ_SHARED: "Erreur lors de la lecture du fichier partagé",
     ERR_SAVE_SHARED: "Erreur lors de l'enregistrement dans le fichier partagé",
-    ERR_CLEAN_SHARED: "Erreur lors du nettoyage des tâches partagées",
-    ERR_DEL_SHARED_CAT: "Erreur lors de la suppression de la catégorie partagée",
-    ERR_DEL_SHARED_TASK: "Erreur lors de la suppression de la tâche partagée",
     ERR_FILE_PICKER: "Erreur lors de l'ouverture du sélecteur de fichiers",
     ERR_CREATE_FILE_MODAL: "Erreur lors de la création du fichier. Essayez d'utiliser la configuration guidée",
     ERR_CREATE_FILE: "Erreur lors de la création du fichier : %s",
@@ -207,7 +386,192 @@ COLOR_GREY: "Gris",
     TIP_CREATE_FILE: "Créer un nouveau fichier JSON",
     FMT_YEAR_MONTH_DAY: "Année-Mois-Jour (ex: 2026-01-02)",
     FMT_DAY_MONTH_YEAR: "Jour-Mois-Année (ex: 02-01-2026)",
-    MODAL_END_DATE: "Date de fin"
+    MODAL_END_DATE: "Date de fin",
+    ERR_LOCK_TIMEOUT: "Le fichier partagé est verrouillé par un autre coffre, réessayez",
+    SETTING_TOMBSTONE_RETENTION: "Conserver les traces de suppression pendant",
+    SETTING_TOMBSTONE_RETENTION_DESC: "En mode partagé, les tâches et catégories supprimées sont mémorisées pendant cette durée pour que les autres coffres ne les fassent pas réapparaître",
+    VAL_DAYS: "%s jours",
+    ERR_SCHEMA_TOO_NEW: "Les données utilisent la version de format %s, mais ce plugin ne comprend que jusqu'à la version %s. Mettez à jour le plugin avant de modifier ces tâches",
+    ERR_SHARED_BLOCKED: "Le fichier partagé est endommagé. Les modifications ne sont pas enregistrées tant qu'il n'est pas récupéré",
+    ERR_NO_BACKUP: "Aucune sauvegarde du fichier partagé n'a été trouvée",
+    ERR_RECOVERY_FAILED: "La récupération a échoué : %s",
+    NOTICE_SHARED_RECOVERED: "Fichier partagé récupéré",
+    MODAL_RECOVERY_TITLE: "Le fichier partagé est endommagé",
+    MSG_RECOVERY_DESC: "%s n'a pas pu être lu correctement. L'enregistrement est suspendu pour ne rien écraser. Choisissez comment le récupérer :",
+    MSG_RECOVERY_QUARANTINE: "Une copie du fichier endommagé a été enregistrée dans %s",
+    MSG_AND_MORE_PROBLEMS: "Et %s autres problèmes",
+    BTN_REPAIR: "Réparer",
+    BTN_RESTORE_BACKUP: "Restaurer la sauvegarde",
+    BTN_REINITIALIZE: "Réinitialiser",
+    CONFIRM_REINITIALIZE: "Remplacer le fichier partagé par une liste de tâches vide ?",
+    SETTING_BACKUPS_HEADING: "Sauvegardes",
+    SETTING_BACKUP_INTERVAL: "Sauvegarde automatique",
+    SETTING_BACKUP_INTERVAL_DESC: "Fréquence des instantanés de vos tâches. Un instantané est aussi pris avant de nettoyer les tâches terminées ou de supprimer une catégorie",
+    SETTING_BACKUP_RETENTION: "Sauvegardes à conserver",
+    SETTING_BACKUP_RETENTION_DESC: "Les sauvegardes plus anciennes sont supprimées automatiquement, séparément pour les tâches locales et partagées",
+    VAL_HOURS: "Toutes les %s heures",
+    MSG_NO_BACKUPS: "Aucune sauvegarde pour le moment",
+    MSG_BACKUP_SUMMARY: "%s catégories, %s tâches (%s)",
+    BACKUP_REASON_SCHEDULED: "planifiée",
+    BACKUP_REASON_CLEAN: "avant nettoyage",
+    BACKUP_REASON_DELETE_CATEGORY: "avant suppression d'une catégorie",
+    BACKUP_REASON_RESTORE: "avant restauration",
+    BTN_PREVIEW: "Aperçu",
+    MODAL_BACKUP_TITLE: "Sauvegarde du %s",
+    BTN_RESTORE_CATEGORY: "Restaurer la catégorie",
+    BTN_RESTORE_ALL: "Tout restaurer",
+    CONFIRM_RESTORE_CATEGORY: "Remplacer cette catégorie par sa version sauvegardée ?",
+    CONFIRM_RESTORE_ALL: "Remplacer toutes les tâches actuelles par cette sauvegarde ?",
+    NOTICE_BACKUP_RESTORED: "Sauvegarde restaurée",
+    ERR_RESTORE_BACKUP: "Erreur lors de la restauration : %s",
+    SETTING_POLL_SHARED: "Vérifier périodiquement le fichier partagé",
+    SETTING_POLL_SHARED_DESC: "À activer si le fichier partagé est sur un lecteur réseau et que les modifications des autres coffres ne sont pas détectées",
+    LABEL_VAULT: "Tâches du fichier du coffre",
+    NOTICE_CLEANED_VAULT: "Tâches terminées nettoyées (fichier du coffre)",
+    ERR_READ_VAULT_FILE: "Impossible de lire le fichier de tâches %s ; il ne sera pas modifié tant qu'il n'est pas corrigé",
+    ERR_SAVE_VAULT_FILE: "Erreur lors de l'enregistrement du fichier de tâches du coffre",
+    SETTING_VAULT_PATH: "Fichier de tâches du coffre",
+    SETTING_VAULT_PATH_DESC: "Chemin d'un fichier JSON dans ce coffre. Il fonctionne sur mobile et se synchronise comme tout autre fichier du coffre.",
+    MSG_SHARED_DESKTOP_ONLY: "Les fichiers hors du coffre ne sont utilisables que dans l'application de bureau. Utilisez plutôt le fichier de tâches du coffre.",
+    LABEL_SOURCE: "Source des tâches",
+    SETTING_SOURCES_HEADING: "Sources partagées",
+    SETTING_SOURCES_DESC: "Fichiers JSON nommés partagés entre les coffres. Chacun apparaît dans la liste des sources en haut de la vue.",
+    FIELD_SOURCE_NAME: "Nom",
+    BTN_ADD_SOURCE: "Ajouter une source partagée...",
+    TIP_REMOVE_SOURCE: "Retirer cette source (le fichier est conservé)",
+    CONFIRM_REMOVE_SOURCE: "Retirer la source partagée \"%s\" ? Le fichier lui-même n'est pas supprimé.",
+    MENU_MOVE_TO: "Déplacer vers %s",
+    MENU_COPY_TO: "Copier vers %s",
+    NOTICE_MOVED_TO: "Déplacé vers %s",
+    NOTICE_COPIED_TO: "Copié vers %s",
+    ERR_TRANSFER: "Transfert vers %s impossible ; rien n'a été modifié",
+    LABEL_ALL_SOURCES: "Toutes les sources",
+    COMMAND_UNDO: "Annuler la dernière modification de tâche",
+    COMMAND_REDO: "Rétablir la modification de tâche",
+    BTN_UNDO: "Annuler",
+    NOTICE_UNDONE: "Modification annulée",
+    NOTICE_REDONE: "Modification rétablie",
+    NOTICE_NOTHING_TO_UNDO: "Rien à annuler",
+    NOTICE_NOTHING_TO_REDO: "Rien à rétablir",
+    NOTICE_TASK_DELETED: "Tâche supprimée",
+    NOTICE_CATEGORY_DELETED: "Catégorie supprimée",
+    COMMAND_OPEN_TRASH: "Ouvrir la corbeille",
+    VIEW_TRASH_TEXT: "Corbeille des tâches",
+    TIP_OPEN_TRASH: "Ouvrir la corbeille",
+    MSG_TRASH_EMPTY: "La corbeille est vide",
+    BTN_EMPTY_TRASH: "Vider la corbeille",
+    CONFIRM_EMPTY_TRASH: "Supprimer définitivement tout le contenu de la corbeille ?",
+    MSG_TRASH_CATEGORY: "Catégorie de %s tâches, supprimée %s",
+    MSG_TRASH_TASK: "De %s, supprimée %s",
+    TIP_RESTORE_TRASH: "Restaurer",
+    TIP_DELETE_FOREVER: "Supprimer définitivement",
+    NOTICE_TRASH_RESTORED: "Restauré depuis la corbeille",
+    SETTING_TRASH_RETENTION: "Vider la corbeille après",
+    SETTING_TRASH_RETENTION_DESC: "Durée pendant laquelle les tâches et catégories supprimées restent dans la corbeille avant d'être effacées définitivement",
+    COMMAND_OPEN_ARCHIVE: "Ouvrir les archives des tâches terminées",
+    VIEW_ARCHIVE_TEXT: "Archives des tâches",
+    TIP_OPEN_ARCHIVE: "Ouvrir les archives",
+    PLACEHOLDER_SEARCH_ARCHIVE: "Rechercher dans les archives",
+    OPT_ALL_CATEGORIES: "Toutes les catégories",
+    FIELD_FROM: "Du",
+    FIELD_TO: "Au",
+    MSG_ARCHIVE_EMPTY: "Aucune tâche archivée",
+    MSG_ARCHIVE_ENTRY: "%s (%s), terminée le %s",
+    TIP_UNARCHIVE: "Remettre dans la liste des tâches",
+    NOTICE_UNARCHIVED: "Tâche sortie des archives",
+    COMMAND_OPEN_ACTIVITY: "Ouvrir le journal d'activité",
+    VIEW_ACTIVITY_TEXT: "Journal d'activité",
+    TIP_OPEN_ACTIVITY: "Journal d'activité",
+    MSG_ACTIVITY_EMPTY: "Aucune modification enregistrée. Les modifications du fichier du coffre et des fichiers partagés apparaissent ici.",
+    MSG_ACTIVITY_ENTRY: "%s, %s",
+    MSG_ACTIVITY_THIS_VAULT: "%s (ce coffre)",
+    MSG_ACTIVITY_MORE: "et %s de plus",
+    NOTICE_EXTERNAL_CHANGES: "%s modifié par %s :",
+    ACTIVITY_TASK_ADDED: "Tâche « %s » ajoutée",
+    ACTIVITY_TASK_REMOVED: "Tâche « %s » supprimée",
+    ACTIVITY_TASK_COMPLETED: "Tâche « %s » terminée",
+    ACTIVITY_TASK_REOPENED: "Tâche « %s » rouverte",
+    ACTIVITY_TASK_RENAMED: "Tâche « %s » renommée en « %s »",
+    ACTIVITY_TASK_EDITED: "Tâche « %s » modifiée",
+    ACTIVITY_CATEGORY_ADDED: "Catégorie « %s » ajoutée",
+    ACTIVITY_CATEGORY_REMOVED: "Catégorie « %s » supprimée",
+    ACTIVITY_CATEGORY_RENAMED: "Catégorie « %s » renommée en « %s »",
+    ACTIVITY_CATEGORY_EDITED: "Catégorie « %s » modifiée",
+    MENU_ADD_SUBTASK: "Ajouter une sous-tâche",
+    INPUT_NEW_SUBTASK: "Nouvelle sous-tâche...",
+    TIP_SUBTASK_PROGRESS: "%s sous-tâches terminées sur %s",
+    TIP_DELETE_SUBTASK: "Supprimer la sous-tâche",
+    SETTING_AUTO_COMPLETE_PARENT: "Terminer les tâches avec leurs sous-tâches",
+    SETTING_AUTO_COMPLETE_PARENT_DESC: "Coche automatiquement une tâche dès que toutes ses sous-tâches sont terminées.",
+    PRIORITY_NONE: "Aucune",
+    PRIORITY_LOW: "Basse",
+    PRIORITY_MEDIUM: "Moyenne",
+    PRIORITY_HIGH: "Haute",
+    PRIORITY_URGENT: "Urgente",
+    FIELD_PRIORITY: "Priorité",
+    MENU_PRIORITY: "Priorité : %s",
+    TIP_SORT_TASKS: "Trier les tâches",
+    MENU_SORT_PRIORITY: "Trier par priorité",
+    NOTICE_SORTED_PRIORITY: "Tâches triées par priorité",
+    PLACEHOLDER_TAG_FILTER: "Filtrer par étiquette...",
+    TIP_FILTER_TAG: "Afficher uniquement les tâches avec cette étiquette",
+    MENU_ADD_TAG: "Ajouter une étiquette",
+    MENU_REMOVE_TAG: "Retirer l'étiquette #%s",
+    FIELD_TAG: "Étiquette",
+    ERR_INVALID_TAG: "Saisissez un nom d'étiquette qui ne contient pas que des chiffres",
+    FIELD_START_DATE: "Date de début",
+    FIELD_START_DATE_DESC: "Jusqu'à ce jour, la tâche est grisée, ou masquée si les tâches futures sont masquées.",
+    ERR_START_AFTER_DUE: "La date de début ne doit pas être après l'échéance",
+    LABEL_STARTS: "Début %s",
+    TIP_SHOW_FUTURE: "Afficher les tâches pas encore commencées",
+    TIP_HIDE_FUTURE: "Masquer les tâches pas encore commencées",
+    MENU_SORT_START_DATE: "Trier par date de début",
+    FIELD_DUE_TIME: "Heure d'échéance",
+    FIELD_REMINDERS: "Rappels",
+    FIELD_REMINDERS_DESC: "Sans heure d'échéance, les rappels partent de 9 h le jour de l'échéance.",
+    REMINDER_AT_DUE: "À l'échéance",
+    REMINDER_MINUTES_BEFORE: "%s min avant",
+    REMINDER_HOURS_BEFORE: "%s h avant",
+    REMINDER_DAYS_BEFORE: "%s jour(s) avant",
+    ERR_DUE_DATE_REQ: "Une heure d'échéance ou un rappel nécessite une date d'échéance",
+    NOTICE_REMINDER: "Rappel : %s (échéance %s)",
+    BTN_SNOOZE_10: "Reporter de 10 min",
+    BTN_SNOOZE_HOUR: "Reporter d'1 h",
+    BTN_SNOOZE_DAY: "Demain",
+    SETTING_SYSTEM_NOTIFICATIONS: "Notifications système",
+    SETTING_SYSTEM_NOTIFICATIONS_DESC: "Afficher aussi les rappels comme notifications système, pas seulement dans Obsidian.",
+    TIP_START_TIMER: "Démarrer le chrono",
+    TIP_STOP_TIMER: "Arrêter le chrono",
+    COMMAND_TIME_REPORT: "Rapport de temps",
+    MSG_REPORT_EMPTY: "Aucun temps enregistré sur cette période.",
+    LABEL_TOTAL: "Total",
+    BTN_EXPORT_CSV: "Exporter en CSV",
+    NOTICE_REPORT_EXPORTED: "Rapport de temps enregistré dans %s",
+    ERR_EXPORT_REPORT: "Impossible d'exporter le rapport de temps : %s",
+    MENU_ADD_BLOCKER: "Bloquée par...",
+    MENU_REMOVE_BLOCKER: "Plus bloquée par « %s »",
+    PLACEHOLDER_CHOOSE_BLOCKER: "Tâche à terminer d'abord...",
+    MSG_BLOCKED_BY: "Bloquée par : %s",
+    ERR_BLOCKER_CYCLE: "Cette tâche attend déjà celle-ci, directement ou indirectement",
+    NOTICE_UNBLOCKED: "« %s » n'est plus bloquée",
+    PROBLEM_ROOT_NOT_OBJECT: "le fichier ne contient pas d'objet",
+    PROBLEM_NOT_A_LIST: "« %s » n'est pas une liste",
+    PROBLEM_CATEGORY_LABEL: "la catégorie n°%s",
+    PROBLEM_TASK_LABEL: "la tâche n°%s de la catégorie n°%s",
+    PROBLEM_SUBTASK_LABEL: "la sous-tâche n°%s de %s",
+    PROBLEM_NOT_OBJECT: "%s n'est pas un objet",
+    PROBLEM_NO_ID: "%s n'a pas d'identifiant",
+    PROBLEM_NO_NAME: "%s n'a pas de nom",
+    PROBLEM_NO_TASK_LIST: "%s n'a pas de liste de tâches",
+    PROBLEM_NO_TEXT: "%s n'a pas de texte",
+    PROBLEM_NO_ID_OR_TEXT: "%s n'a pas d'identifiant ou de texte",
+    PROBLEM_INVALID_COMPLETION: "%s a un état d'achèvement invalide",
+    PROBLEM_INVALID_DUE_DATE: "%s a une échéance invalide",
+    PROBLEM_INVALID_START_DATE: "%s a une date de début invalide",
+    PROBLEM_INVALID_EXDATES: "%s a des dates sautées invalides",
+    PROBLEM_INVALID_SUBTASKS: "%s a une liste de sous-tâches invalide",
+    PROBLEM_INVALID_JSON: "JSON invalide (%s)",
+    NOTICE_CLEANED_ALL: "%s tâches terminées nettoyées"
   },
   it: {
     COLOR_DEFAULT: "Predefinito",
@@ -239,7 +603,7 @@ COLOR_GREY: "Gris",
     TIP_SORT_AZ: "Ordina categorie (A-Z)",
     TIP_TOGGLE_ALL: "Espandi/comprimi tutto",
     TIP_CLEAN_DONE: "Pulisci compiti completati",
-    CONFIRM_CLEAN_ALL: "Eliminare tutti i compiti completati da tutte le categorie?",
+    CONFIRM_CLEAN_ALL: "Spostare nell'archivio tutti i compiti completati di tutte le categorie?",
     TIP_ADD_TASK: "Aggiungi compito",
     TIP_SORT_DATE: "Ordina per data",
     TIP_DELETE_CAT: "Elimina categoria",
@@ -302,9 +666,6 @@ COLOR_GREY: "Gris",
     MENU_CHANGE_COLOR: "Cambia colore",
     ERR_READ_SHARED: "Errore durante la lettura del file condiviso",
     ERR_SAVE_SHARED: "Errore durante il salvataggio nel file condiviso",
-    ERR_CLEAN_SHARED: "Errore durante la pulizia dei compiti condivisi",
-    ERR_DEL_SHARED_CAT: "Errore durante l'eliminazione della categoria condivisa",
-    ERR_DEL_SHARED_TASK: "Errore durante l'eliminazione del compito condiviso",
     ERR_FILE_PICKER: "Errore durante l'apertura del selettore file",
     ERR_CREATE_FILE_MODAL: "Errore durante la creazione del file. Prova a usare la configurazione guidata",
     ERR_CREATE_FILE: "Errore durante la creazione del file: %s",
@@ -312,7 +673,192 @@ COLOR_GREY: "Gris",
     TIP_CREATE_FILE: "Crea nuovo file JSON",
     FMT_YEAR_MONTH_DAY: "Anno-Mese-Giorno (es. 2026-01-02)",
     FMT_DAY_MONTH_YEAR: "Giorno-Mese-Anno (es. 02-01-2026)",
-    MODAL_END_DATE: "Data di fine"
+    MODAL_END_DATE: "Data di fine",
+    ERR_LOCK_TIMEOUT: "Il file condiviso è bloccato da un altro vault, riprova",
+    SETTING_TOMBSTONE_RETENTION: "Conserva le tracce di eliminazione per",
+    SETTING_TOMBSTONE_RETENTION_DESC: "In modalità condivisa, le attività e le categorie eliminate vengono ricordate per questo periodo affinché gli altri vault non le ripristinino",
+    VAL_DAYS: "%s giorni",
+    ERR_SCHEMA_TOO_NEW: "I dati usano la versione di formato %s, ma questo plugin supporta solo fino alla versione %s. Aggiorna il plugin prima di modificare queste attività",
+    ERR_SHARED_BLOCKED: "Il file condiviso è danneggiato. Le modifiche non vengono salvate finché non viene ripristinato",
+    ERR_NO_BACKUP: "Nessun backup del file condiviso trovato",
+    ERR_RECOVERY_FAILED: "Ripristino non riuscito: %s",
+    NOTICE_SHARED_RECOVERED: "File condiviso ripristinato",
+    MODAL_RECOVERY_TITLE: "Il file condiviso è danneggiato",
+    MSG_RECOVERY_DESC: "%s non può essere letto in modo sicuro. Il salvataggio è sospeso per non sovrascrivere nulla. Scegli come ripristinarlo:",
+    MSG_RECOVERY_QUARANTINE: "Una copia del file danneggiato è stata salvata in %s",
+    MSG_AND_MORE_PROBLEMS: "E altri %s problemi",
+    BTN_REPAIR: "Ripara",
+    BTN_RESTORE_BACKUP: "Ripristina dal backup",
+    BTN_REINITIALIZE: "Reinizializza",
+    CONFIRM_REINITIALIZE: "Sostituire il file condiviso con un elenco di attività vuoto?",
+    SETTING_BACKUPS_HEADING: "Backup",
+    SETTING_BACKUP_INTERVAL: "Backup automatico",
+    SETTING_BACKUP_INTERVAL_DESC: "Frequenza delle istantanee delle attività. Un'istantanea viene creata anche prima di pulire le attività completate o eliminare una categoria",
+    SETTING_BACKUP_RETENTION: "Backup da conservare",
+    SETTING_BACKUP_RETENTION_DESC: "I backup più vecchi vengono eliminati automaticamente, separatamente per le attività locali e condivise",
+    VAL_HOURS: "Ogni %s ore",
+    MSG_NO_BACKUPS: "Nessun backup ancora",
+    MSG_BACKUP_SUMMARY: "%s categorie, %s attività (%s)",
+    BACKUP_REASON_SCHEDULED: "pianificato",
+    BACKUP_REASON_CLEAN: "prima della pulizia",
+    BACKUP_REASON_DELETE_CATEGORY: "prima di eliminare una categoria",
+    BACKUP_REASON_RESTORE: "prima del ripristino",
+    BTN_PREVIEW: "Anteprima",
+    MODAL_BACKUP_TITLE: "Backup del %s",
+    BTN_RESTORE_CATEGORY: "Ripristina categoria",
+    BTN_RESTORE_ALL: "Ripristina tutto",
+    CONFIRM_RESTORE_CATEGORY: "Sostituire questa categoria con la versione salvata?",
+    CONFIRM_RESTORE_ALL: "Sostituire tutte le attività attuali con questo backup?",
+    NOTICE_BACKUP_RESTORED: "Backup ripristinato",
+    ERR_RESTORE_BACKUP: "Errore durante il ripristino: %s",
+    SETTING_POLL_SHARED: "Controlla periodicamente il file condiviso",
+    SETTING_POLL_SHARED_DESC: "Attiva se il file condiviso si trova su un'unità di rete e le modifiche degli altri vault non vengono rilevate",
+    LABEL_VAULT: "Compiti del file del vault",
+    NOTICE_CLEANED_VAULT: "Compiti completati puliti (file del vault)",
+    ERR_READ_VAULT_FILE: "Impossibile leggere il file dei compiti %s; non verrà modificato finché non sarà corretto",
+    ERR_SAVE_VAULT_FILE: "Errore durante il salvataggio del file dei compiti del vault",
+    SETTING_VAULT_PATH: "File dei compiti del vault",
+    SETTING_VAULT_PATH_DESC: "Percorso di un file JSON in questo vault. Funziona su mobile e si sincronizza come qualsiasi altro file del vault.",
+    MSG_SHARED_DESKTOP_ONLY: "I file esterni al vault sono utilizzabili solo nell'app desktop. Usa invece il file dei compiti del vault.",
+    LABEL_SOURCE: "Origine dei compiti",
+    SETTING_SOURCES_HEADING: "Origini condivise",
+    SETTING_SOURCES_DESC: "File JSON con nome condivisi tra i vault. Ognuno compare nell'elenco delle origini in cima alla vista.",
+    FIELD_SOURCE_NAME: "Nome",
+    BTN_ADD_SOURCE: "Aggiungi un'origine condivisa...",
+    TIP_REMOVE_SOURCE: "Rimuovi questa origine (il file viene mantenuto)",
+    CONFIRM_REMOVE_SOURCE: "Rimuovere l'origine condivisa \"%s\"? Il file non viene eliminato.",
+    MENU_MOVE_TO: "Sposta in %s",
+    MENU_COPY_TO: "Copia in %s",
+    NOTICE_MOVED_TO: "Spostato in %s",
+    NOTICE_COPIED_TO: "Copiato in %s",
+    ERR_TRANSFER: "Impossibile trasferire in %s; nulla è stato modificato",
+    LABEL_ALL_SOURCES: "Tutte le origini",
+    COMMAND_UNDO: "Annulla l'ultima modifica ai compiti",
+    COMMAND_REDO: "Ripeti la modifica ai compiti",
+    BTN_UNDO: "Annulla",
+    NOTICE_UNDONE: "Modifica annullata",
+    NOTICE_REDONE: "Modifica ripristinata",
+    NOTICE_NOTHING_TO_UNDO: "Niente da annullare",
+    NOTICE_NOTHING_TO_REDO: "Niente da ripetere",
+    NOTICE_TASK_DELETED: "Compito eliminato",
+    NOTICE_CATEGORY_DELETED: "Categoria eliminata",
+    COMMAND_OPEN_TRASH: "Apri il cestino",
+    VIEW_TRASH_TEXT: "Cestino dei compiti",
+    TIP_OPEN_TRASH: "Apri il cestino",
+    MSG_TRASH_EMPTY: "Il cestino è vuoto",
+    BTN_EMPTY_TRASH: "Svuota il cestino",
+    CONFIRM_EMPTY_TRASH: "Eliminare definitivamente tutto il contenuto del cestino?",
+    MSG_TRASH_CATEGORY: "Categoria con %s compiti, eliminata %s",
+    MSG_TRASH_TASK: "Da %s, eliminato %s",
+    TIP_RESTORE_TRASH: "Ripristina",
+    TIP_DELETE_FOREVER: "Elimina definitivamente",
+    NOTICE_TRASH_RESTORED: "Ripristinato dal cestino",
+    SETTING_TRASH_RETENTION: "Svuota il cestino dopo",
+    SETTING_TRASH_RETENTION_DESC: "Per quanto tempo compiti e categorie eliminati restano nel cestino prima di essere rimossi definitivamente",
+    COMMAND_OPEN_ARCHIVE: "Apri l'archivio dei compiti completati",
+    VIEW_ARCHIVE_TEXT: "Archivio dei compiti",
+    TIP_OPEN_ARCHIVE: "Apri l'archivio",
+    PLACEHOLDER_SEARCH_ARCHIVE: "Cerca nei compiti archiviati",
+    OPT_ALL_CATEGORIES: "Tutte le categorie",
+    FIELD_FROM: "Dal",
+    FIELD_TO: "Al",
+    MSG_ARCHIVE_EMPTY: "Nessun compito archiviato",
+    MSG_ARCHIVE_ENTRY: "%s (%s), completato il %s",
+    TIP_UNARCHIVE: "Riporta nell'elenco dei compiti",
+    NOTICE_UNARCHIVED: "Compito riportato dall'archivio",
+    COMMAND_OPEN_ACTIVITY: "Apri il registro attività",
+    VIEW_ACTIVITY_TEXT: "Registro attività",
+    TIP_OPEN_ACTIVITY: "Registro attività",
+    MSG_ACTIVITY_EMPTY: "Nessuna modifica registrata. Le modifiche al file del vault e ai file condivisi appaiono qui.",
+    MSG_ACTIVITY_ENTRY: "%s, %s",
+    MSG_ACTIVITY_THIS_VAULT: "%s (questo vault)",
+    MSG_ACTIVITY_MORE: "e altri %s",
+    NOTICE_EXTERNAL_CHANGES: "%s modificato da %s:",
+    ACTIVITY_TASK_ADDED: "Compito \"%s\" aggiunto",
+    ACTIVITY_TASK_REMOVED: "Compito \"%s\" eliminato",
+    ACTIVITY_TASK_COMPLETED: "Compito \"%s\" completato",
+    ACTIVITY_TASK_REOPENED: "Compito \"%s\" riaperto",
+    ACTIVITY_TASK_RENAMED: "Compito \"%s\" rinominato in \"%s\"",
+    ACTIVITY_TASK_EDITED: "Compito \"%s\" modificato",
+    ACTIVITY_CATEGORY_ADDED: "Categoria \"%s\" aggiunta",
+    ACTIVITY_CATEGORY_REMOVED: "Categoria \"%s\" eliminata",
+    ACTIVITY_CATEGORY_RENAMED: "Categoria \"%s\" rinominata in \"%s\"",
+    ACTIVITY_CATEGORY_EDITED: "Categoria \"%s\" modificata",
+    MENU_ADD_SUBTASK: "Aggiungi sottocompito",
+    INPUT_NEW_SUBTASK: "Nuovo sottocompito...",
+    TIP_SUBTASK_PROGRESS: "%s di %s sottocompiti completati",
+    TIP_DELETE_SUBTASK: "Elimina sottocompito",
+    SETTING_AUTO_COMPLETE_PARENT: "Completa i compiti con i sottocompiti",
+    SETTING_AUTO_COMPLETE_PARENT_DESC: "Spunta automaticamente un compito quando tutti i suoi sottocompiti sono completati.",
+    PRIORITY_NONE: "Nessuna",
+    PRIORITY_LOW: "Bassa",
+    PRIORITY_MEDIUM: "Media",
+    PRIORITY_HIGH: "Alta",
+    PRIORITY_URGENT: "Urgente",
+    FIELD_PRIORITY: "Priorità",
+    MENU_PRIORITY: "Priorità: %s",
+    TIP_SORT_TASKS: "Ordina i compiti",
+    MENU_SORT_PRIORITY: "Ordina per priorità",
+    NOTICE_SORTED_PRIORITY: "Compiti ordinati per priorità",
+    PLACEHOLDER_TAG_FILTER: "Filtra per tag...",
+    TIP_FILTER_TAG: "Mostra solo i compiti con questo tag",
+    MENU_ADD_TAG: "Aggiungi tag",
+    MENU_REMOVE_TAG: "Rimuovi tag #%s",
+    FIELD_TAG: "Tag",
+    ERR_INVALID_TAG: "Inserisci un nome di tag che non sia composto solo da cifre",
+    FIELD_START_DATE: "Data di inizio",
+    FIELD_START_DATE_DESC: "Fino a questo giorno il compito è attenuato, o nascosto se i compiti futuri sono nascosti.",
+    ERR_START_AFTER_DUE: "La data di inizio non può essere successiva alla scadenza",
+    LABEL_STARTS: "Inizia %s",
+    TIP_SHOW_FUTURE: "Mostra i compiti non ancora iniziati",
+    TIP_HIDE_FUTURE: "Nascondi i compiti non ancora iniziati",
+    MENU_SORT_START_DATE: "Ordina per data di inizio",
+    FIELD_DUE_TIME: "Ora di scadenza",
+    FIELD_REMINDERS: "Promemoria",
+    FIELD_REMINDERS_DESC: "Senza ora di scadenza, i promemoria partono dalle 9:00 del giorno di scadenza.",
+    REMINDER_AT_DUE: "Alla scadenza",
+    REMINDER_MINUTES_BEFORE: "%s min prima",
+    REMINDER_HOURS_BEFORE: "%s h prima",
+    REMINDER_DAYS_BEFORE: "%s giorno/i prima",
+    ERR_DUE_DATE_REQ: "Un'ora di scadenza o un promemoria richiede una data di scadenza",
+    NOTICE_REMINDER: "Promemoria: %s (scadenza %s)",
+    BTN_SNOOZE_10: "Posticipa di 10 min",
+    BTN_SNOOZE_HOUR: "Posticipa di 1 ora",
+    BTN_SNOOZE_DAY: "Domani",
+    SETTING_SYSTEM_NOTIFICATIONS: "Notifiche di sistema",
+    SETTING_SYSTEM_NOTIFICATIONS_DESC: "Mostra i promemoria anche come notifiche di sistema, non solo in Obsidian.",
+    TIP_START_TIMER: "Avvia il timer",
+    TIP_STOP_TIMER: "Ferma il timer",
+    COMMAND_TIME_REPORT: "Resoconto dei tempi",
+    MSG_REPORT_EMPTY: "Nessun tempo registrato in questo periodo.",
+    LABEL_TOTAL: "Totale",
+    BTN_EXPORT_CSV: "Esporta in CSV",
+    NOTICE_REPORT_EXPORTED: "Resoconto salvato in %s",
+    ERR_EXPORT_REPORT: "Impossibile esportare il resoconto: %s",
+    MENU_ADD_BLOCKER: "Bloccato da...",
+    MENU_REMOVE_BLOCKER: "Non più bloccato da \"%s\"",
+    PLACEHOLDER_CHOOSE_BLOCKER: "Compito da completare prima...",
+    MSG_BLOCKED_BY: "Bloccato da: %s",
+    ERR_BLOCKER_CYCLE: "Quel compito attende già questo, direttamente o indirettamente",
+    NOTICE_UNBLOCKED: "\"%s\" non è più bloccato",
+    PROBLEM_ROOT_NOT_OBJECT: "il file non contiene un oggetto",
+    PROBLEM_NOT_A_LIST: "\"%s\" non è un elenco",
+    PROBLEM_CATEGORY_LABEL: "la categoria n. %s",
+    PROBLEM_TASK_LABEL: "il compito n. %s della categoria n. %s",
+    PROBLEM_SUBTASK_LABEL: "il sotto-compito n. %s di %s",
+    PROBLEM_NOT_OBJECT: "%s non è un oggetto",
+    PROBLEM_NO_ID: "%s non ha un id",
+    PROBLEM_NO_NAME: "%s non ha un nome",
+    PROBLEM_NO_TASK_LIST: "%s non ha un elenco di compiti",
+    PROBLEM_NO_TEXT: "%s non ha testo",
+    PROBLEM_NO_ID_OR_TEXT: "%s non ha id o testo",
+    PROBLEM_INVALID_COMPLETION: "%s ha uno stato di completamento non valido",
+    PROBLEM_INVALID_DUE_DATE: "%s ha una scadenza non valida",
+    PROBLEM_INVALID_START_DATE: "%s ha una data di inizio non valida",
+    PROBLEM_INVALID_EXDATES: "%s ha date saltate non valide",
+    PROBLEM_INVALID_SUBTASKS: "%s ha un elenco di sotto-compiti non valido",
+    PROBLEM_INVALID_JSON: "JSON non valido (%s)",
+    NOTICE_CLEANED_ALL: "%s compiti completati ripuliti"
   },
   es: {
     COLOR_DEFAULT: "Predeterminado",
@@ -344,7 +890,7 @@ COLOR_GREY: "Gris",
     TIP_SORT_AZ: "Ordenar categorías (A-Z)",
     TIP_TOGGLE_ALL: "Expandir/contraer todo",
     TIP_CLEAN_DONE: "Limpiar tareas completadas",
-    CONFIRM_CLEAN_ALL: "¿Eliminar todas las tareas completadas de todas las categorías?",
+    CONFIRM_CLEAN_ALL: "¿Mover al archivo todas las tareas completadas de todas las categorías?",
     TIP_ADD_TASK: "Añadir tarea",
     TIP_SORT_DATE: "Ordenar por fecha",
     TIP_DELETE_CAT: "Eliminar categoría",
@@ -407,9 +953,6 @@ COLOR_GREY: "Gris",
     MENU_CHANGE_COLOR: "Cambiar color",
     ERR_READ_SHARED: "Error al leer el archivo compartido",
     ERR_SAVE_SHARED: "Error al guardar en el archivo compartido",
-    ERR_CLEAN_SHARED: "Error al limpiar las tareas compartidas",
-    ERR_DEL_SHARED_CAT: "Error al eliminar la categoría compartida",
-    ERR_DEL_SHARED_TASK: "Error al eliminar la tarea compartida",
     ERR_FILE_PICKER: "Error al abrir el selector de archivos",
     ERR_CREATE_FILE_MODAL: "Error al crear el archivo. Intente usar la configuración guiada",
     ERR_CREATE_FILE: "Error al crear el archivo: %s",
@@ -417,7 +960,192 @@ COLOR_GREY: "Gris",
     TIP_CREATE_FILE: "Crear nuevo archivo JSON",
     FMT_YEAR_MONTH_DAY: "Año-Mes-Día (ej. 2026-01-02)",
     FMT_DAY_MONTH_YEAR: "Día-Mes-Año (ej. 02-01-2026)",
-    MODAL_END_DATE: "Fecha de fin"
+    MODAL_END_DATE: "Fecha de fin",
+    ERR_LOCK_TIMEOUT: "El archivo compartido está bloqueado por otra bóveda, inténtalo de nuevo",
+    SETTING_TOMBSTONE_RETENTION: "Conservar los registros de eliminación durante",
+    SETTING_TOMBSTONE_RETENTION_DESC: "En modo compartido, las tareas y categorías eliminadas se recuerdan durante este tiempo para que otras bóvedas no las restauren",
+    VAL_DAYS: "%s días",
+    ERR_SCHEMA_TOO_NEW: "Los datos usan la versión de formato %s, pero este plugin solo entiende hasta la versión %s. Actualiza el plugin antes de editar estas tareas",
+    ERR_SHARED_BLOCKED: "El archivo compartido está dañado. Los cambios no se guardan hasta que se recupere",
+    ERR_NO_BACKUP: "No se encontró ninguna copia de seguridad del archivo compartido",
+    ERR_RECOVERY_FAILED: "La recuperación falló: %s",
+    NOTICE_SHARED_RECOVERED: "Archivo compartido recuperado",
+    MODAL_RECOVERY_TITLE: "El archivo compartido está dañado",
+    MSG_RECOVERY_DESC: "%s no se pudo leer de forma segura. El guardado está en pausa para no sobrescribir nada. Elige cómo recuperarlo:",
+    MSG_RECOVERY_QUARANTINE: "Se guardó una copia del archivo dañado en %s",
+    MSG_AND_MORE_PROBLEMS: "Y %s problemas más",
+    BTN_REPAIR: "Reparar",
+    BTN_RESTORE_BACKUP: "Restaurar copia de seguridad",
+    BTN_REINITIALIZE: "Reinicializar",
+    CONFIRM_REINITIALIZE: "¿Reemplazar el archivo compartido por una lista de tareas vacía?",
+    SETTING_BACKUPS_HEADING: "Copias de seguridad",
+    SETTING_BACKUP_INTERVAL: "Copia de seguridad automática",
+    SETTING_BACKUP_INTERVAL_DESC: "Con qué frecuencia guardar una instantánea de tus tareas. También se guarda una antes de limpiar tareas completadas o eliminar una categoría",
+    SETTING_BACKUP_RETENTION: "Copias a conservar",
+    SETTING_BACKUP_RETENTION_DESC: "Las copias más antiguas se eliminan automáticamente, por separado para tareas locales y compartidas",
+    VAL_HOURS: "Cada %s horas",
+    MSG_NO_BACKUPS: "Aún no hay copias de seguridad",
+    MSG_BACKUP_SUMMARY: "%s categorías, %s tareas (%s)",
+    BACKUP_REASON_SCHEDULED: "programada",
+    BACKUP_REASON_CLEAN: "antes de limpiar",
+    BACKUP_REASON_DELETE_CATEGORY: "antes de eliminar una categoría",
+    BACKUP_REASON_RESTORE: "antes de restaurar",
+    BTN_PREVIEW: "Vista previa",
+    MODAL_BACKUP_TITLE: "Copia del %s",
+    BTN_RESTORE_CATEGORY: "Restaurar categoría",
+    BTN_RESTORE_ALL: "Restaurar todo",
+    CONFIRM_RESTORE_CATEGORY: "¿Reemplazar esta categoría por su versión guardada?",
+    CONFIRM_RESTORE_ALL: "¿Reemplazar todas las tareas actuales por esta copia?",
+    NOTICE_BACKUP_RESTORED: "Copia restaurada",
+    ERR_RESTORE_BACKUP: "Error al restaurar la copia: %s",
+    SETTING_POLL_SHARED: "Comprobar periódicamente el archivo compartido",
+    SETTING_POLL_SHARED_DESC: "Actívalo si el archivo compartido está en una unidad de red y no se detectan los cambios de otras bóvedas",
+    LABEL_VAULT: "Tareas del archivo de la bóveda",
+    NOTICE_CLEANED_VAULT: "Tareas completadas limpiadas (archivo de la bóveda)",
+    ERR_READ_VAULT_FILE: "No se puede leer el archivo de tareas %s; no se modificará hasta que se corrija",
+    ERR_SAVE_VAULT_FILE: "Error al guardar el archivo de tareas de la bóveda",
+    SETTING_VAULT_PATH: "Archivo de tareas de la bóveda",
+    SETTING_VAULT_PATH_DESC: "Ruta de un archivo JSON dentro de esta bóveda. Funciona en móvil y se sincroniza como cualquier otro archivo de la bóveda.",
+    MSG_SHARED_DESKTOP_ONLY: "Los archivos fuera de la bóveda solo se pueden usar en la aplicación de escritorio. Use el archivo de tareas de la bóveda.",
+    LABEL_SOURCE: "Origen de las tareas",
+    SETTING_SOURCES_HEADING: "Orígenes compartidos",
+    SETTING_SOURCES_DESC: "Archivos JSON con nombre compartidos entre bóvedas. Cada uno aparece en la lista de orígenes de la cabecera de la vista.",
+    FIELD_SOURCE_NAME: "Nombre",
+    BTN_ADD_SOURCE: "Añadir un origen compartido...",
+    TIP_REMOVE_SOURCE: "Quitar este origen (el archivo se conserva)",
+    CONFIRM_REMOVE_SOURCE: "¿Quitar el origen compartido \"%s\"? El archivo no se elimina.",
+    MENU_MOVE_TO: "Mover a %s",
+    MENU_COPY_TO: "Copiar a %s",
+    NOTICE_MOVED_TO: "Movido a %s",
+    NOTICE_COPIED_TO: "Copiado a %s",
+    ERR_TRANSFER: "No se pudo transferir a %s; no se cambió nada",
+    LABEL_ALL_SOURCES: "Todos los orígenes",
+    COMMAND_UNDO: "Deshacer el último cambio de tareas",
+    COMMAND_REDO: "Rehacer el cambio de tareas",
+    BTN_UNDO: "Deshacer",
+    NOTICE_UNDONE: "Cambio deshecho",
+    NOTICE_REDONE: "Cambio rehecho",
+    NOTICE_NOTHING_TO_UNDO: "Nada que deshacer",
+    NOTICE_NOTHING_TO_REDO: "Nada que rehacer",
+    NOTICE_TASK_DELETED: "Tarea eliminada",
+    NOTICE_CATEGORY_DELETED: "Categoría eliminada",
+    COMMAND_OPEN_TRASH: "Abrir la papelera",
+    VIEW_TRASH_TEXT: "Papelera de tareas",
+    TIP_OPEN_TRASH: "Abrir la papelera",
+    MSG_TRASH_EMPTY: "La papelera está vacía",
+    BTN_EMPTY_TRASH: "Vaciar la papelera",
+    CONFIRM_EMPTY_TRASH: "¿Eliminar definitivamente todo lo que hay en la papelera?",
+    MSG_TRASH_CATEGORY: "Categoría con %s tareas, eliminada %s",
+    MSG_TRASH_TASK: "De %s, eliminada %s",
+    TIP_RESTORE_TRASH: "Restaurar",
+    TIP_DELETE_FOREVER: "Eliminar definitivamente",
+    NOTICE_TRASH_RESTORED: "Restaurado desde la papelera",
+    SETTING_TRASH_RETENTION: "Vaciar la papelera después de",
+    SETTING_TRASH_RETENTION_DESC: "Tiempo que las tareas y categorías eliminadas permanecen en la papelera antes de borrarse definitivamente",
+    COMMAND_OPEN_ARCHIVE: "Abrir el archivo de tareas completadas",
+    VIEW_ARCHIVE_TEXT: "Archivo de tareas",
+    TIP_OPEN_ARCHIVE: "Abrir el archivo",
+    PLACEHOLDER_SEARCH_ARCHIVE: "Buscar tareas archivadas",
+    OPT_ALL_CATEGORIES: "Todas las categorías",
+    FIELD_FROM: "Desde",
+    FIELD_TO: "Hasta",
+    MSG_ARCHIVE_EMPTY: "No hay tareas archivadas",
+    MSG_ARCHIVE_ENTRY: "%s (%s), completada el %s",
+    TIP_UNARCHIVE: "Devolver a la lista de tareas",
+    NOTICE_UNARCHIVED: "Tarea devuelta desde el archivo",
+    COMMAND_OPEN_ACTIVITY: "Abrir el registro de actividad",
+    VIEW_ACTIVITY_TEXT: "Registro de actividad",
+    TIP_OPEN_ACTIVITY: "Registro de actividad",
+    MSG_ACTIVITY_EMPTY: "Aún no hay cambios registrados. Los cambios del archivo de la bóveda y de los archivos compartidos aparecen aquí.",
+    MSG_ACTIVITY_ENTRY: "%s, %s",
+    MSG_ACTIVITY_THIS_VAULT: "%s (esta bóveda)",
+    MSG_ACTIVITY_MORE: "y %s más",
+    NOTICE_EXTERNAL_CHANGES: "%s modificado por %s:",
+    ACTIVITY_TASK_ADDED: "Tarea \"%s\" añadida",
+    ACTIVITY_TASK_REMOVED: "Tarea \"%s\" eliminada",
+    ACTIVITY_TASK_COMPLETED: "Tarea \"%s\" completada",
+    ACTIVITY_TASK_REOPENED: "Tarea \"%s\" reabierta",
+    ACTIVITY_TASK_RENAMED: "Tarea \"%s\" renombrada a \"%s\"",
+    ACTIVITY_TASK_EDITED: "Tarea \"%s\" editada",
+    ACTIVITY_CATEGORY_ADDED: "Categoría \"%s\" añadida",
+    ACTIVITY_CATEGORY_REMOVED: "Categoría \"%s\" eliminada",
+    ACTIVITY_CATEGORY_RENAMED: "Categoría \"%s\" renombrada a \"%s\"",
+    ACTIVITY_CATEGORY_EDITED: "Categoría \"%s\" editada",
+    MENU_ADD_SUBTASK: "Añadir subtarea",
+    INPUT_NEW_SUBTASK: "Nueva subtarea...",
+    TIP_SUBTASK_PROGRESS: "%s de %s subtareas completadas",
+    TIP_DELETE_SUBTASK: "Eliminar subtarea",
+    SETTING_AUTO_COMPLETE_PARENT: "Completar tareas con sus subtareas",
+    SETTING_AUTO_COMPLETE_PARENT_DESC: "Marca una tarea automáticamente cuando todas sus subtareas están completadas.",
+    PRIORITY_NONE: "Ninguna",
+    PRIORITY_LOW: "Baja",
+    PRIORITY_MEDIUM: "Media",
+    PRIORITY_HIGH: "Alta",
+    PRIORITY_URGENT: "Urgente",
+    FIELD_PRIORITY: "Prioridad",
+    MENU_PRIORITY: "Prioridad: %s",
+    TIP_SORT_TASKS: "Ordenar tareas",
+    MENU_SORT_PRIORITY: "Ordenar por prioridad",
+    NOTICE_SORTED_PRIORITY: "Tareas ordenadas por prioridad",
+    PLACEHOLDER_TAG_FILTER: "Filtrar por etiqueta...",
+    TIP_FILTER_TAG: "Mostrar solo las tareas con esta etiqueta",
+    MENU_ADD_TAG: "Añadir etiqueta",
+    MENU_REMOVE_TAG: "Quitar etiqueta #%s",
+    FIELD_TAG: "Etiqueta",
+    ERR_INVALID_TAG: "Introduce un nombre de etiqueta que no sea solo dígitos",
+    FIELD_START_DATE: "Fecha de inicio",
+    FIELD_START_DATE_DESC: "Hasta ese día la tarea aparece atenuada, u oculta si las tareas futuras están ocultas.",
+    ERR_START_AFTER_DUE: "La fecha de inicio no puede ser posterior al vencimiento",
+    LABEL_STARTS: "Empieza %s",
+    TIP_SHOW_FUTURE: "Mostrar las tareas que aún no han empezado",
+    TIP_HIDE_FUTURE: "Ocultar las tareas que aún no han empezado",
+    MENU_SORT_START_DATE: "Ordenar por fecha de inicio",
+    FIELD_DUE_TIME: "Hora de vencimiento",
+    FIELD_REMINDERS: "Recordatorios",
+    FIELD_REMINDERS_DESC: "Sin hora de vencimiento, los recordatorios cuentan desde las 9:00 del día de vencimiento.",
+    REMINDER_AT_DUE: "Al vencer",
+    REMINDER_MINUTES_BEFORE: "%s min antes",
+    REMINDER_HOURS_BEFORE: "%s h antes",
+    REMINDER_DAYS_BEFORE: "%s día(s) antes",
+    ERR_DUE_DATE_REQ: "Una hora de vencimiento o un recordatorio necesita una fecha de vencimiento",
+    NOTICE_REMINDER: "Recordatorio: %s (vence %s)",
+    BTN_SNOOZE_10: "Posponer 10 min",
+    BTN_SNOOZE_HOUR: "Posponer 1 hora",
+    BTN_SNOOZE_DAY: "Mañana",
+    SETTING_SYSTEM_NOTIFICATIONS: "Notificaciones del sistema",
+    SETTING_SYSTEM_NOTIFICATIONS_DESC: "Mostrar los recordatorios también como notificaciones del sistema, no solo en Obsidian.",
+    TIP_START_TIMER: "Iniciar temporizador",
+    TIP_STOP_TIMER: "Detener temporizador",
+    COMMAND_TIME_REPORT: "Informe de tiempo",
+    MSG_REPORT_EMPTY: "No hay tiempo registrado en este periodo.",
+    LABEL_TOTAL: "Total",
+    BTN_EXPORT_CSV: "Exportar como CSV",
+    NOTICE_REPORT_EXPORTED: "Informe guardado en %s",
+    ERR_EXPORT_REPORT: "No se pudo exportar el informe: %s",
+    MENU_ADD_BLOCKER: "Bloqueada por...",
+    MENU_REMOVE_BLOCKER: "Ya no bloqueada por \"%s\"",
+    PLACEHOLDER_CHOOSE_BLOCKER: "Tarea que debe completarse antes...",
+    MSG_BLOCKED_BY: "Bloqueada por: %s",
+    ERR_BLOCKER_CYCLE: "Esa tarea ya espera a esta, directa o indirectamente",
+    NOTICE_UNBLOCKED: "\"%s\" ya no está bloqueada",
+    PROBLEM_ROOT_NOT_OBJECT: "el archivo no contiene un objeto",
+    PROBLEM_NOT_A_LIST: "\"%s\" no es una lista",
+    PROBLEM_CATEGORY_LABEL: "la categoría n.º %s",
+    PROBLEM_TASK_LABEL: "la tarea n.º %s de la categoría n.º %s",
+    PROBLEM_SUBTASK_LABEL: "la subtarea n.º %s de %s",
+    PROBLEM_NOT_OBJECT: "%s no es un objeto",
+    PROBLEM_NO_ID: "%s no tiene id",
+    PROBLEM_NO_NAME: "%s no tiene nombre",
+    PROBLEM_NO_TASK_LIST: "%s no tiene lista de tareas",
+    PROBLEM_NO_TEXT: "%s no tiene texto",
+    PROBLEM_NO_ID_OR_TEXT: "%s no tiene id o texto",
+    PROBLEM_INVALID_COMPLETION: "%s tiene un estado de finalización no válido",
+    PROBLEM_INVALID_DUE_DATE: "%s tiene una fecha de vencimiento no válida",
+    PROBLEM_INVALID_START_DATE: "%s tiene una fecha de inicio no válida",
+    PROBLEM_INVALID_EXDATES: "%s tiene fechas omitidas no válidas",
+    PROBLEM_INVALID_SUBTASKS: "%s tiene una lista de subtareas no válida",
+    PROBLEM_INVALID_JSON: "JSON no válido (%s)",
+    NOTICE_CLEANED_ALL: "%s tareas completadas limpiadas"
   },
   de: {
     COLOR_DEFAULT: "Standard",
@@ -448,8 +1176,8 @@ COLOR_GREY: "Gris",
     BTN_ADD_CAT: "+ Kategorie",
     TIP_SORT_AZ: "Kategorien sortieren (A-Z)",
     TIP_TOGGLE_ALL: "Alle auf-/zuklappen",
-    TIP_CLEAN_DONE: "Erledigte Aufgaben löschen",
-    CONFIRM_CLEAN_ALL: "Alle erledigten Aufgaben aus allen Kategorien löschen?",
+    TIP_CLEAN_DONE: "Erledigte Aufgaben archivieren",
+    CONFIRM_CLEAN_ALL: "Alle erledigten Aufgaben aus allen Kategorien ins Archiv verschieben?",
     TIP_ADD_TASK: "Aufgabe hinzufügen",
     TIP_SORT_DATE: "Nach Datum sortieren",
     TIP_DELETE_CAT: "Kategorie löschen",
@@ -459,8 +1187,8 @@ COLOR_GREY: "Gris",
     CONFIRM_DELETE_TASK: "Diese Aufgabe löschen?",
     NOTICE_SORTED: "Aufgaben sortiert: %s",
     NOTICE_SORTED_GLOBAL: "Alle Kategorien alphabetisch sortiert",
-    NOTICE_CLEANED_SHARED: "Erledigte Aufgaben gelöscht (geteilt)",
-    NOTICE_CLEANED_LOCAL: "Erledigte Aufgaben gelöscht (lokal)",
+    NOTICE_CLEANED_SHARED: "Erledigte Aufgaben archiviert (geteilt)",
+    NOTICE_CLEANED_LOCAL: "Erledigte Aufgaben archiviert (lokal)",
     NOTICE_NO_CLEAN: "Keine erledigten Aufgaben zum Löschen vorhanden",
     NOTICE_NEXT_OCCURRENCE: "Nächster Termin: %s",
     NOTICE_RECURRENCE_ENDED: "Wiederholung beendet (Enddatum erreicht)",
@@ -512,9 +1240,6 @@ COLOR_GREY: "Gris",
     MENU_CHANGE_COLOR: "Farbe ändern",
     ERR_READ_SHARED: "Fehler beim Lesen der geteilten Datei",
     ERR_SAVE_SHARED: "Fehler beim Speichern in der geteilten Datei",
-    ERR_CLEAN_SHARED: "Fehler beim Bereinigen der geteilten Aufgaben",
-    ERR_DEL_SHARED_CAT: "Fehler beim Löschen der geteilten Kategorie",
-    ERR_DEL_SHARED_TASK: "Fehler beim Löschen der geteilten Aufgabe",
     ERR_FILE_PICKER: "Fehler beim Öffnen der Dateiauswahl",
     ERR_CREATE_FILE_MODAL: "Fehler beim Erstellen der Datei. Versuchen Sie es mit dem Einrichtungsassistenten",
     ERR_CREATE_FILE: "Fehler beim Erstellen der Datei: %s",
@@ -522,7 +1247,192 @@ COLOR_GREY: "Gris",
     TIP_CREATE_FILE: "Neue JSON-Datei erstellen",
     FMT_YEAR_MONTH_DAY: "Jahr-Monat-Tag (z.B. 2026-01-02)",
     FMT_DAY_MONTH_YEAR: "Tag-Monat-Jahr (z.B. 02-01-2026)",
-    MODAL_END_DATE: "Enddatum"
+    MODAL_END_DATE: "Enddatum",
+    ERR_LOCK_TIMEOUT: "Die geteilte Datei ist von einem anderen Tresor gesperrt, bitte erneut versuchen",
+    SETTING_TOMBSTONE_RETENTION: "Löschvermerke aufbewahren für",
+    SETTING_TOMBSTONE_RETENTION_DESC: "Im geteilten Modus werden gelöschte Aufgaben und Kategorien so lange gemerkt, damit andere Tresore sie nicht wiederherstellen",
+    VAL_DAYS: "%s Tage",
+    ERR_SCHEMA_TOO_NEW: "Die Daten verwenden Formatversion %s, dieses Plugin versteht aber nur bis Version %s. Aktualisiere das Plugin, bevor du diese Aufgaben bearbeitest",
+    ERR_SHARED_BLOCKED: "Die geteilte Datei ist beschädigt. Änderungen werden erst nach der Wiederherstellung gespeichert",
+    ERR_NO_BACKUP: "Keine Sicherung der geteilten Datei gefunden",
+    ERR_RECOVERY_FAILED: "Wiederherstellung fehlgeschlagen: %s",
+    NOTICE_SHARED_RECOVERED: "Geteilte Datei wiederhergestellt",
+    MODAL_RECOVERY_TITLE: "Die geteilte Datei ist beschädigt",
+    MSG_RECOVERY_DESC: "%s konnte nicht sicher gelesen werden. Das Speichern ist pausiert, damit nichts überschrieben wird. Wähle die Wiederherstellung:",
+    MSG_RECOVERY_QUARANTINE: "Eine Kopie der beschädigten Datei wurde unter %s gespeichert",
+    MSG_AND_MORE_PROBLEMS: "Und %s weitere Probleme",
+    BTN_REPAIR: "Reparieren",
+    BTN_RESTORE_BACKUP: "Aus Sicherung wiederherstellen",
+    BTN_REINITIALIZE: "Neu initialisieren",
+    CONFIRM_REINITIALIZE: "Die geteilte Datei durch eine leere Aufgabenliste ersetzen?",
+    SETTING_BACKUPS_HEADING: "Sicherungen",
+    SETTING_BACKUP_INTERVAL: "Automatische Sicherung",
+    SETTING_BACKUP_INTERVAL_DESC: "Wie oft deine Aufgaben gesichert werden. Vor dem Bereinigen erledigter Aufgaben oder dem Löschen einer Kategorie wird ebenfalls gesichert",
+    SETTING_BACKUP_RETENTION: "Aufzubewahrende Sicherungen",
+    SETTING_BACKUP_RETENTION_DESC: "Ältere Sicherungen werden automatisch gelöscht, getrennt für lokale und geteilte Aufgaben",
+    VAL_HOURS: "Alle %s Stunden",
+    MSG_NO_BACKUPS: "Noch keine Sicherungen",
+    MSG_BACKUP_SUMMARY: "%s Kategorien, %s Aufgaben (%s)",
+    BACKUP_REASON_SCHEDULED: "geplant",
+    BACKUP_REASON_CLEAN: "vor dem Bereinigen",
+    BACKUP_REASON_DELETE_CATEGORY: "vor dem Löschen einer Kategorie",
+    BACKUP_REASON_RESTORE: "vor der Wiederherstellung",
+    BTN_PREVIEW: "Vorschau",
+    MODAL_BACKUP_TITLE: "Sicherung vom %s",
+    BTN_RESTORE_CATEGORY: "Kategorie wiederherstellen",
+    BTN_RESTORE_ALL: "Alles wiederherstellen",
+    CONFIRM_RESTORE_CATEGORY: "Diese Kategorie durch die gesicherte Version ersetzen?",
+    CONFIRM_RESTORE_ALL: "Alle aktuellen Aufgaben durch diese Sicherung ersetzen?",
+    NOTICE_BACKUP_RESTORED: "Sicherung wiederhergestellt",
+    ERR_RESTORE_BACKUP: "Fehler beim Wiederherstellen: %s",
+    SETTING_POLL_SHARED: "Geteilte Datei regelmäßig prüfen",
+    SETTING_POLL_SHARED_DESC: "Aktivieren, wenn die geteilte Datei auf einem Netzlaufwerk liegt und Änderungen anderer Tresore nicht erkannt werden",
+    LABEL_VAULT: "Aufgaben der Tresordatei",
+    NOTICE_CLEANED_VAULT: "Erledigte Aufgaben bereinigt (Tresordatei)",
+    ERR_READ_VAULT_FILE: "Die Aufgabendatei %s kann nicht gelesen werden; sie wird erst nach einer Korrektur wieder geändert",
+    ERR_SAVE_VAULT_FILE: "Fehler beim Speichern der Aufgabendatei im Tresor",
+    SETTING_VAULT_PATH: "Aufgabendatei im Tresor",
+    SETTING_VAULT_PATH_DESC: "Pfad einer JSON-Datei in diesem Tresor. Sie funktioniert auf Mobilgeräten und wird wie jede andere Tresordatei synchronisiert.",
+    MSG_SHARED_DESKTOP_ONLY: "Dateien außerhalb des Tresors sind nur in der Desktop-App nutzbar. Verwenden Sie stattdessen die Aufgabendatei im Tresor.",
+    LABEL_SOURCE: "Aufgabenquelle",
+    SETTING_SOURCES_HEADING: "Geteilte Quellen",
+    SETTING_SOURCES_DESC: "Benannte JSON-Dateien, die zwischen Tresoren geteilt werden. Jede erscheint in der Quellenliste im Kopf der Ansicht.",
+    FIELD_SOURCE_NAME: "Name",
+    BTN_ADD_SOURCE: "Geteilte Quelle hinzufügen...",
+    TIP_REMOVE_SOURCE: "Diese Quelle entfernen (die Datei bleibt erhalten)",
+    CONFIRM_REMOVE_SOURCE: "Die geteilte Quelle \"%s\" entfernen? Die Datei selbst wird nicht gelöscht.",
+    MENU_MOVE_TO: "Verschieben nach %s",
+    MENU_COPY_TO: "Kopieren nach %s",
+    NOTICE_MOVED_TO: "Verschoben nach %s",
+    NOTICE_COPIED_TO: "Kopiert nach %s",
+    ERR_TRANSFER: "Übertragung nach %s nicht möglich; nichts wurde geändert",
+    LABEL_ALL_SOURCES: "Alle Quellen",
+    COMMAND_UNDO: "Letzte Aufgabenänderung rückgängig machen",
+    COMMAND_REDO: "Aufgabenänderung wiederherstellen",
+    BTN_UNDO: "Rückgängig",
+    NOTICE_UNDONE: "Änderung rückgängig gemacht",
+    NOTICE_REDONE: "Änderung wiederhergestellt",
+    NOTICE_NOTHING_TO_UNDO: "Nichts rückgängig zu machen",
+    NOTICE_NOTHING_TO_REDO: "Nichts wiederherzustellen",
+    NOTICE_TASK_DELETED: "Aufgabe gelöscht",
+    NOTICE_CATEGORY_DELETED: "Kategorie gelöscht",
+    COMMAND_OPEN_TRASH: "Papierkorb öffnen",
+    VIEW_TRASH_TEXT: "Aufgaben-Papierkorb",
+    TIP_OPEN_TRASH: "Papierkorb öffnen",
+    MSG_TRASH_EMPTY: "Der Papierkorb ist leer",
+    BTN_EMPTY_TRASH: "Papierkorb leeren",
+    CONFIRM_EMPTY_TRASH: "Alles im Papierkorb endgültig löschen?",
+    MSG_TRASH_CATEGORY: "Kategorie mit %s Aufgaben, gelöscht %s",
+    MSG_TRASH_TASK: "Aus %s, gelöscht %s",
+    TIP_RESTORE_TRASH: "Wiederherstellen",
+    TIP_DELETE_FOREVER: "Endgültig löschen",
+    NOTICE_TRASH_RESTORED: "Aus dem Papierkorb wiederhergestellt",
+    SETTING_TRASH_RETENTION: "Papierkorb leeren nach",
+    SETTING_TRASH_RETENTION_DESC: "So lange bleiben gelöschte Aufgaben und Kategorien im Papierkorb, bevor sie endgültig entfernt werden",
+    COMMAND_OPEN_ARCHIVE: "Archiv erledigter Aufgaben öffnen",
+    VIEW_ARCHIVE_TEXT: "Aufgabenarchiv",
+    TIP_OPEN_ARCHIVE: "Archiv öffnen",
+    PLACEHOLDER_SEARCH_ARCHIVE: "Archivierte Aufgaben durchsuchen",
+    OPT_ALL_CATEGORIES: "Alle Kategorien",
+    FIELD_FROM: "Von",
+    FIELD_TO: "Bis",
+    MSG_ARCHIVE_EMPTY: "Keine archivierten Aufgaben",
+    MSG_ARCHIVE_ENTRY: "%s (%s), erledigt am %s",
+    TIP_UNARCHIVE: "Zurück in die Aufgabenliste",
+    NOTICE_UNARCHIVED: "Aufgabe aus dem Archiv zurückgeholt",
+    COMMAND_OPEN_ACTIVITY: "Aktivitätsprotokoll öffnen",
+    VIEW_ACTIVITY_TEXT: "Aktivitätsprotokoll",
+    TIP_OPEN_ACTIVITY: "Aktivitätsprotokoll",
+    MSG_ACTIVITY_EMPTY: "Noch keine Änderungen erfasst. Änderungen an der Tresordatei und an geteilten Dateien erscheinen hier.",
+    MSG_ACTIVITY_ENTRY: "%s, %s",
+    MSG_ACTIVITY_THIS_VAULT: "%s (dieser Tresor)",
+    MSG_ACTIVITY_MORE: "und %s weitere",
+    NOTICE_EXTERNAL_CHANGES: "%s geändert von %s:",
+    ACTIVITY_TASK_ADDED: "Aufgabe „%s“ hinzugefügt",
+    ACTIVITY_TASK_REMOVED: "Aufgabe „%s“ gelöscht",
+    ACTIVITY_TASK_COMPLETED: "Aufgabe „%s“ erledigt",
+    ACTIVITY_TASK_REOPENED: "Aufgabe „%s“ wieder geöffnet",
+    ACTIVITY_TASK_RENAMED: "Aufgabe „%s“ in „%s“ umbenannt",
+    ACTIVITY_TASK_EDITED: "Aufgabe „%s“ bearbeitet",
+    ACTIVITY_CATEGORY_ADDED: "Kategorie „%s“ hinzugefügt",
+    ACTIVITY_CATEGORY_REMOVED: "Kategorie „%s“ gelöscht",
+    ACTIVITY_CATEGORY_RENAMED: "Kategorie „%s“ in „%s“ umbenannt",
+    ACTIVITY_CATEGORY_EDITED: "Kategorie „%s“ bearbeitet",
+    MENU_ADD_SUBTASK: "Unteraufgabe hinzufügen",
+    INPUT_NEW_SUBTASK: "Neue Unteraufgabe...",
+    TIP_SUBTASK_PROGRESS: "%s von %s Unteraufgaben erledigt",
+    TIP_DELETE_SUBTASK: "Unteraufgabe löschen",
+    SETTING_AUTO_COMPLETE_PARENT: "Aufgaben mit ihren Unteraufgaben erledigen",
+    SETTING_AUTO_COMPLETE_PARENT_DESC: "Hakt eine Aufgabe automatisch ab, sobald alle ihre Unteraufgaben erledigt sind.",
+    PRIORITY_NONE: "Keine",
+    PRIORITY_LOW: "Niedrig",
+    PRIORITY_MEDIUM: "Mittel",
+    PRIORITY_HIGH: "Hoch",
+    PRIORITY_URGENT: "Dringend",
+    FIELD_PRIORITY: "Priorität",
+    MENU_PRIORITY: "Priorität: %s",
+    TIP_SORT_TASKS: "Aufgaben sortieren",
+    MENU_SORT_PRIORITY: "Nach Priorität sortieren",
+    NOTICE_SORTED_PRIORITY: "Aufgaben nach Priorität sortiert",
+    PLACEHOLDER_TAG_FILTER: "Nach Tag filtern...",
+    TIP_FILTER_TAG: "Nur Aufgaben mit diesem Tag anzeigen",
+    MENU_ADD_TAG: "Tag hinzufügen",
+    MENU_REMOVE_TAG: "Tag #%s entfernen",
+    FIELD_TAG: "Tag",
+    ERR_INVALID_TAG: "Gib einen Tag-Namen ein, der nicht nur aus Ziffern besteht",
+    FIELD_START_DATE: "Startdatum",
+    FIELD_START_DATE_DESC: "Bis zu diesem Tag wird die Aufgabe abgeblendet, oder ausgeblendet, wenn zukünftige Aufgaben ausgeblendet sind.",
+    ERR_START_AFTER_DUE: "Das Startdatum darf nicht nach dem Fälligkeitsdatum liegen",
+    LABEL_STARTS: "Ab %s",
+    TIP_SHOW_FUTURE: "Noch nicht begonnene Aufgaben anzeigen",
+    TIP_HIDE_FUTURE: "Noch nicht begonnene Aufgaben ausblenden",
+    MENU_SORT_START_DATE: "Nach Startdatum sortieren",
+    FIELD_DUE_TIME: "Fälligkeitszeit",
+    FIELD_REMINDERS: "Erinnerungen",
+    FIELD_REMINDERS_DESC: "Ohne Fälligkeitszeit zählen Erinnerungen ab 9:00 Uhr am Fälligkeitstag.",
+    REMINDER_AT_DUE: "Bei Fälligkeit",
+    REMINDER_MINUTES_BEFORE: "%s Min. vorher",
+    REMINDER_HOURS_BEFORE: "%s Std. vorher",
+    REMINDER_DAYS_BEFORE: "%s Tag(e) vorher",
+    ERR_DUE_DATE_REQ: "Eine Fälligkeitszeit oder Erinnerung braucht ein Fälligkeitsdatum",
+    NOTICE_REMINDER: "Erinnerung: %s (fällig %s)",
+    BTN_SNOOZE_10: "10 Min. später",
+    BTN_SNOOZE_HOUR: "1 Std. später",
+    BTN_SNOOZE_DAY: "Morgen",
+    SETTING_SYSTEM_NOTIFICATIONS: "Systembenachrichtigungen",
+    SETTING_SYSTEM_NOTIFICATIONS_DESC: "Erinnerungen auch als Systembenachrichtigungen anzeigen, nicht nur in Obsidian.",
+    TIP_START_TIMER: "Timer starten",
+    TIP_STOP_TIMER: "Timer stoppen",
+    COMMAND_TIME_REPORT: "Zeitbericht",
+    MSG_REPORT_EMPTY: "In diesem Zeitraum wurde keine Zeit erfasst.",
+    LABEL_TOTAL: "Gesamt",
+    BTN_EXPORT_CSV: "Als CSV exportieren",
+    NOTICE_REPORT_EXPORTED: "Zeitbericht gespeichert unter %s",
+    ERR_EXPORT_REPORT: "Zeitbericht konnte nicht exportiert werden: %s",
+    MENU_ADD_BLOCKER: "Blockiert durch...",
+    MENU_REMOVE_BLOCKER: "Nicht mehr blockiert durch „%s“",
+    PLACEHOLDER_CHOOSE_BLOCKER: "Aufgabe, die zuerst erledigt sein muss...",
+    MSG_BLOCKED_BY: "Blockiert durch: %s",
+    ERR_BLOCKER_CYCLE: "Diese Aufgabe wartet bereits direkt oder indirekt auf diese",
+    NOTICE_UNBLOCKED: "„%s“ ist nicht mehr blockiert",
+    PROBLEM_ROOT_NOT_OBJECT: "die Datei enthält kein Objekt",
+    PROBLEM_NOT_A_LIST: "„%s“ ist keine Liste",
+    PROBLEM_CATEGORY_LABEL: "Kategorie Nr. %s",
+    PROBLEM_TASK_LABEL: "Aufgabe Nr. %s von Kategorie Nr. %s",
+    PROBLEM_SUBTASK_LABEL: "Unteraufgabe Nr. %s von %s",
+    PROBLEM_NOT_OBJECT: "%s ist kein Objekt",
+    PROBLEM_NO_ID: "%s hat keine ID",
+    PROBLEM_NO_NAME: "%s hat keinen Namen",
+    PROBLEM_NO_TASK_LIST: "%s hat keine Aufgabenliste",
+    PROBLEM_NO_TEXT: "%s hat keinen Text",
+    PROBLEM_NO_ID_OR_TEXT: "%s hat keine ID oder keinen Text",
+    PROBLEM_INVALID_COMPLETION: "%s hat einen ungültigen Erledigt-Status",
+    PROBLEM_INVALID_DUE_DATE: "%s hat ein ungültiges Fälligkeitsdatum",
+    PROBLEM_INVALID_START_DATE: "%s hat ein ungültiges Startdatum",
+    PROBLEM_INVALID_EXDATES: "%s hat ungültige übersprungene Termine",
+    PROBLEM_INVALID_SUBTASKS: "%s hat eine ungültige Unteraufgabenliste",
+    PROBLEM_INVALID_JSON: "ungültiges JSON (%s)",
+    NOTICE_CLEANED_ALL: "%s erledigte Aufgaben bereinigt"
   }
 };
 
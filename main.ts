@@ -1,19 +1,74 @@
-import { App, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, ItemView, Modal, Notice, setIcon, Menu, moment } from 'obsidian';
-import * as fs from 'fs';
+import { AbstractInputSuggest, App, FuzzySuggestModal, getLinkpath, Keymap, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, ItemView, Modal, Notice, setIcon, Menu, moment, normalizePath, Platform, TFile } from 'obsidian';
+import type * as NodeFs from 'fs';
+import type * as NodePath from 'path';
 import { t, MESSAGES } from './l10n';
 
+// Node modules only exist in the desktop app. On mobile they are never loaded, and every code path that
+// touches the shared file (settings, header button, watcher, backups) checks DESKTOP_FS first.
+const DESKTOP_FS = Platform.isDesktopApp;
+const fs = (DESKTOP_FS ? loadNodeModule<typeof NodeFs>('fs') : undefined) as typeof NodeFs;
+const path = (DESKTOP_FS ? loadNodeModule<typeof NodePath>('path') : undefined) as typeof NodePath;
+
+// The desktop app exposes Node's require on window
+function loadNodeModule<T>(id: string): T {
+  return (window as unknown as { require: (id: string) => T }).require(id);
+}
+
 // --- Interfaces ---
 
+// When a field was last changed and by which vault (see SimpleTasksBlocksSettings.writerId).
+interface FieldStamp {
+  at: number;
+  by: string;
+}
+
 interface Task {
   id: string;
   text: string;
   completed: boolean;
+  // The task cannot be worked on before this day (yyyy-mm-dd)
+  startDate?: string;
   dueDate?: string;
+  // HH:mm on the due date
+  dueTime?: string;
+  // Minutes before the due time at which to remind, 0 being the due time itself
+  reminders?: number[];
+  // Recorded work; an entry without `end` is the running timer
+  timeEntries?: TimeEntry[];
+  // Ids of tasks in the same store that must be completed first
+  blockedBy?: string[];
   scratchpad?: string;
   recurrenceType?: 'none' | 'daily' | 'weekly' | 'monthly' | 'custom_days';
   recurrenceValue?: number;
   recurrenceUntil?: string;
   recurrenceExdates?: string[];
+  // When the task was checked off, in ms
+  completedAt?: number;
+  // Absent when the task has no priority
+  priority?: TaskPriority;
+  // Tags set from the context menu, without the hash. Tags written as `#tag` in the text are not copied here.
+  tags?: string[];
+  subtasks?: Subtask[];
+  updatedAt?: Record<string, FieldStamp>;
+}
+
+type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+interface TimeEntry {
+  id: string;
+  start: number;
+  end?: number;
+  // writerId of the vault that started the timer
+  by: string;
+}
+
+// A checklist item inside a task. Merged and undone item by item, like tasks inside a category.
+interface Subtask {
+  id: string;
+  text: string;
+  completed: boolean;
+  dueDate?: string;
+  updatedAt?: Record<string, FieldStamp>;
 }
 
 interface Category {
@@ -23,15 +78,76 @@ interface Category {
   isCollapsed?: boolean;
   color?: string;
   lastSortOrder?: 'asc' | 'desc';
+  updatedAt?: Record<string, FieldStamp>;
+}
+
+// A deleted task or category, kept with enough context to put it back where it was
+interface TrashEntry {
+  id: string;
+  deletedAt: number;
+  categoryId: string;
+  categoryName: string;
+  position: number;
+  task?: Task;
+  category?: Category;
+}
+
+// A completed task set aside by the clean action
+interface ArchiveEntry {
+  id: string;
+  archivedAt: number;
+  categoryId: string;
+  categoryName: string;
+  task: Task;
+}
+
+// Everything a store keeps next to its category list
+interface StoreSections {
+  trash: TrashEntry[];
+  archive: ArchiveEntry[];
 }
 
-interface SimpleTasksBlocksSettings {
+interface SharedSource {
+  id: string;
+  name: string;
+  filePath: string;
+}
+
+// A shared source is addressed as `shared:<source id>`
+type StorageContext = 'local' | 'vault' | `shared:${string}`;
+
+interface SimpleTasksBlocksSettings extends StoreSections {
+  schemaVersion: number;
   categories: Category[];
   confirmTaskDeletion: boolean;
   dateFormat: 'YYYY-MM-DD' | 'DD-MM-YYYY' | 'Automatic';
-  sharedFilePath?: string;
-  activeContext: 'local' | 'shared';
+  sharedSources: SharedSource[];
+  // 'all' shows every store at once; actions on a category go to the store it came from
+  activeContext: StorageContext | 'all';
+  vaultFilePath: string;
   futureTasksCount: number;
+  tombstoneRetentionDays: number;
+  writerId: string;
+  backupIntervalHours: number;
+  backupRetentionCount: number;
+  pollSharedFile: boolean;
+  trashRetentionDays: number;
+  autoCompleteParent: boolean;
+  // Tasks whose start date is still ahead are shown dimmed when on, hidden when off
+  showFutureTasks: boolean;
+  systemNotifications: boolean;
+  // Reminders of this device already shown, as key (see reminderKey) => reminder time
+  firedReminders: Record<string, number>;
+  // Snoozed reminders, as key => when to show them again
+  snoozedReminders: Record<string, number>;
+}
+
+interface Snapshot {
+  createdAt: number;
+  source: 'local' | 'shared' | 'vault';
+  filePath?: string;
+  reason: 'scheduled' | 'clean' | 'delete-category' | 'restore';
+  categories: Category[];
 }
 
 interface ElectronRemote {
@@ -43,16 +159,273 @@ interface ElectronRemote {
   remote?: ElectronRemote;
 }
 
+// --- Schema Migrations ---
+
+type RawData = Record<string, unknown>;
+
+// Entry `i` upgrades data from schema version `i + 1` to `i + 2`. Version 1 is the original unversioned format.
+const SETTINGS_MIGRATIONS: ((data: RawData) => void)[] = [
+  // 2: categories always hold a task array
+  (data) => {
+    const categories = Array.isArray(data.categories) ? data.categories as Category[] : [];
+    categories.forEach(c => { if (!Array.isArray(c.tasks)) c.tasks = []; });
+    data.categories = categories;
+  },
+  // 3: named shared sources replace the single shared file path
+  (data) => {
+    const sources: SharedSource[] = [];
+    if (typeof data.sharedFilePath === 'string' && data.sharedFilePath) {
+      sources.push({ id: newId(), name: sourceNameFromPath(data.sharedFilePath), filePath: data.sharedFilePath });
+    }
+    data.sharedSources = sources;
+    delete data.sharedFilePath;
+    if (data.activeContext === 'shared') {
+      data.activeContext = sources.length > 0 ? sharedContext(sources[0].id) : 'local';
+    }
+  },
+  // 4: trash
+  (data) => {
+    if (!Array.isArray(data.trash)) data.trash = [];
+  },
+  // 5: completed-task archive
+  (data) => {
+    if (!Array.isArray(data.archive)) data.archive = [];
+  }
+];
+
+const SHARED_MIGRATIONS: ((data: RawData) => void)[] = [
+  // 2: deletion tombstones
+  (data) => {
+    if (!Array.isArray(data.categories)) data.categories = [];
+    if (!Array.isArray(data.tombstones)) data.tombstones = [];
+  },
+  // 3: trash
+  (data) => {
+    if (!Array.isArray(data.trash)) data.trash = [];
+  },
+  // 4: completed-task archive
+  (data) => {
+    if (!Array.isArray(data.archive)) data.archive = [];
+  },
+  // 5: activity log
+  (data) => {
+    if (!Array.isArray(data.activity)) data.activity = [];
+  }
+];
+
+const SETTINGS_SCHEMA_VERSION = SETTINGS_MIGRATIONS.length + 1;
+const SHARED_SCHEMA_VERSION = SHARED_MIGRATIONS.length + 1;
+
+// Upgrades `data` in place. Data written by a newer plugin is left untouched so callers can refuse to overwrite it.
+function migrateData(data: RawData, migrations: ((data: RawData) => void)[]): RawData {
+  const targetVersion = migrations.length + 1;
+  let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+  if (version > targetVersion) return data;
+  while (version < targetVersion) {
+    migrations[version - 1](data);
+    version++;
+  }
+  data.schemaVersion = targetVersion;
+  return data;
+}
+
 const DEFAULT_SETTINGS: SimpleTasksBlocksSettings = {
+  schemaVersion: SETTINGS_SCHEMA_VERSION,
   categories: [],
   confirmTaskDeletion: false,
   dateFormat: 'Automatic',
-  sharedFilePath: '',
+  sharedSources: [],
   activeContext: 'local',
-  futureTasksCount: 10
+  vaultFilePath: 'simple-tasks-blocks.json',
+  futureTasksCount: 10,
+  tombstoneRetentionDays: 30,
+  writerId: '',
+  backupIntervalHours: 24,
+  backupRetentionCount: 10,
+  pollSharedFile: false,
+  trash: [],
+  trashRetentionDays: 30,
+  archive: [],
+  autoCompleteParent: false,
+  showFutureTasks: true,
+  systemNotifications: true,
+  firedReminders: {},
+  snoozedReminders: {}
+}
+
+function sharedContext(sourceId: string): StorageContext {
+  return `shared:${sourceId}`;
+}
+
+// Time-ordered random id in the spirit of ULIDs. Two vaults creating items in the same millisecond still get different ids.
+function newId(): string {
+  const random = crypto.getRandomValues(new Uint32Array(2));
+  return Date.now().toString(36).padStart(9, '0') + Array.from(random, n => n.toString(36).padStart(7, '0')).join('');
+}
+
+function sourceNameFromPath(filePath: string): string {
+  return filePath.split(/[\\/]/).pop()?.replace(/\.json$/i, '') || filePath;
 }
 
 const VIEW_TYPE_TASKS = "simple-tasks-blocks-view";
+const VIEW_TYPE_TRASH = "simple-tasks-blocks-trash";
+const VIEW_TYPE_ARCHIVE = "simple-tasks-blocks-archive";
+const VIEW_TYPE_ACTIVITY = "simple-tasks-blocks-activity";
+const BACKUP_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+const REMINDER_CHECK_INTERVAL_MS = 30 * 1000;
+// Reminders missed while Obsidian was closed are still shown when they are at most this old
+const REMINDER_CATCH_UP_MS = 7 * 24 * 60 * 60 * 1000;
+// Reminders of tasks without a due time count from this time of the due day
+const DEFAULT_DUE_TIME = '09:00';
+// Offsets offered in the date dialog, in minutes before the due time
+const REMINDER_OFFSETS = [0, 10, 30, 60, 24 * 60];
+
+const BACKUP_REASON_KEYS: Record<Snapshot['reason'], keyof typeof MESSAGES['en']> = {
+  'scheduled': 'BACKUP_REASON_SCHEDULED',
+  'clean': 'BACKUP_REASON_CLEAN',
+  'delete-category': 'BACKUP_REASON_DELETE_CATEGORY',
+  'restore': 'BACKUP_REASON_RESTORE'
+};
+
+// Lowest first. Tasks without a priority rank below all of them.
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+const PRIORITY_KEYS: Record<TaskPriority | 'none', keyof typeof MESSAGES['en']> = {
+  'none': 'PRIORITY_NONE',
+  'low': 'PRIORITY_LOW',
+  'medium': 'PRIORITY_MEDIUM',
+  'high': 'PRIORITY_HIGH',
+  'urgent': 'PRIORITY_URGENT'
+};
+
+// `#tag` words in task text. Like Obsidian tags, purely numeric ones such as `#12` are not tags.
+const TAG_PATTERN = /(^|\s)#([^\s#]+)/g;
+
+// Lower case, without the hash, spaces and trailing punctuation
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/[.,;:!?]+$/, '').replace(/\s+/g, '-').toLowerCase();
+}
+
+function isTag(tag: string): boolean {
+  return tag !== '' && !/^\d+$/.test(tag);
+}
+
+// Tags from the text and from the context menu, without duplicates
+function getTaskTags(task: Task): string[] {
+  const inText = (task.text.match(TAG_PATTERN) || []).map(normalizeTag).filter(isTag);
+  return Array.from(new Set([...inText, ...(task.tags || [])]));
+}
+
+// When the task is due, in ms; undefined without a due date
+function getDueMoment(task: Task): number | undefined {
+  if (!task.dueDate) return undefined;
+  return window.moment(`${task.dueDate} ${task.dueTime || DEFAULT_DUE_TIME}`, 'YYYY-MM-DD HH:mm').valueOf();
+}
+
+// A reminder is identified by its task and time, so moving the due date schedules fresh reminders
+function reminderKey(taskId: string, at: number): string {
+  return `${taskId}@${at}`;
+}
+
+function formatReminderOffset(minutes: number): string {
+  if (minutes === 0) return t('REMINDER_AT_DUE');
+  if (minutes % (24 * 60) === 0) return t('REMINDER_DAYS_BEFORE', (minutes / (24 * 60)).toString());
+  if (minutes % 60 === 0) return t('REMINDER_HOURS_BEFORE', (minutes / 60).toString());
+  return t('REMINDER_MINUTES_BEFORE', minutes.toString());
+}
+
+// Time recorded on the task in ms, counting a running timer up to `now`. With a range, only the part inside it counts.
+function getTrackedTime(task: Task, now: number, from = 0, to = Infinity): number {
+  return (task.timeEntries || []).reduce((total, entry) => {
+    const start = Math.max(entry.start, from);
+    const end = Math.min(entry.end ?? now, to);
+    return end > start ? total + end - start : total;
+  }, 0);
+}
+
+// Whether a timer runs on the task; with `writerId`, only a timer that vault started counts
+function isTiming(task: Task, writerId?: string): boolean {
+  return (task.timeEntries || []).some(entry => entry.end === undefined && (writerId === undefined || entry.by === writerId));
+}
+
+// Ends the running timer of the task, or only one started by `writerId`
+function endTimeEntries(task: Task, now: number, writerId?: string) {
+  task.timeEntries = task.timeEntries?.map(entry =>
+    entry.end === undefined && (writerId === undefined || entry.by === writerId) ? { ...entry, end: now } : entry);
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${(minutes % 60).toString().padStart(2, '0')}m` : `${minutes}m`;
+}
+
+function findTask(categories: Category[], taskId: string): Task | undefined {
+  for (const category of categories) {
+    const task = category.tasks.find(t => t.id === taskId);
+    if (task) return task;
+  }
+  return undefined;
+}
+
+// Blockers that still hold the task back. Blockers that were deleted or archived no longer count.
+function getOpenBlockers(categories: Category[], task: Task): Task[] {
+  return (task.blockedBy || [])
+    .map(id => findTask(categories, id))
+    .filter((blocker): blocker is Task => !!blocker && !blocker.completed);
+}
+
+// True when `blockerId` already waits on `taskId`, directly or through other tasks
+function wouldCreateCycle(categories: Category[], taskId: string, blockerId: string): boolean {
+  const seen = new Set<string>();
+  const pending = [blockerId];
+  while (pending.length > 0) {
+    const id = pending.pop() as string;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    pending.push(...(findTask(categories, id)?.blockedBy || []));
+  }
+  return false;
+}
+
+// Drops references to tasks that are gone from every remaining task
+function removeBlockerReferences(categories: Category[], taskIds: string[]) {
+  categories.forEach(c => c.tasks.forEach(task => {
+    if (!task.blockedBy?.some(id => taskIds.includes(id))) return;
+    const remaining = task.blockedBy.filter(id => !taskIds.includes(id));
+    if (remaining.length > 0) task.blockedBy = remaining;
+    else delete task.blockedBy;
+  }));
+}
+
+function isNotStarted(task: Task): boolean {
+  return !!task.startDate && task.startDate > window.moment().format('YYYY-MM-DD');
+}
+
+// The text as shown in the task row, where tags appear as chips instead. Punctuation right after a tag stays,
+// so "Buy #milk, then" reads "Buy, then".
+function stripTags(text: string): string {
+  const stripped = text.replace(TAG_PATTERN, (match: string, space: string, tag: string) => {
+    if (!isTag(normalizeTag(tag))) return match;
+    return tag.match(/[.,;:!?]+$/)?.[0] ?? space;
+  });
+  return stripped.replace(/\s+/g, ' ').trim();
+}
+
+// `[[note]]`, `[[note|alias]]` and `[label](target)` links in task text
+const LINK_PATTERN = /\[\[([^\[\]|]+)(?:\|([^\[\]]+))?\]\]|\[([^\[\]]+)\]\(([^()\s]+)\)/g;
+
+// The `[[` link being typed before the cursor, up to the cursor
+const OPEN_LINK_PATTERN = /\[\[([^\[\]|]*)$/;
+
+// Task text may come from a shared file someone else edits, so only these schemes become live links
+const SAFE_LINK_SCHEMES = ['http:', 'https:', 'mailto:', 'obsidian:'];
+
+// The `scheme:` a link target starts with, in lower case; undefined for a vault path
+function getLinkScheme(target: string): string | undefined {
+  return target.match(/^[a-z][a-z0-9+.-]*:/i)?.[0].toLowerCase();
+}
 
 const COLOR_VALUES = {
   'Default': '',
@@ -64,1207 +437,3875 @@ const COLOR_VALUES = {
   'Grey': 'rgba(158, 158, 158, 0.1)'
 };
 
-// --- Main Plugin Class ---
+// --- Shared File Access ---
 
-export default class SimpleTasksBlocksPlugin extends Plugin {
-  settings: SimpleTasksBlocksSettings;
+// Records a deletion so that a stale copy saved by another vault cannot bring the item back.
+interface Tombstone {
+  id: string;
+  kind: 'task' | 'category' | 'subtask';
+  deletedAt: number;
+}
 
-  async onload() {
-    await this.loadSettings();
+interface SharedFileData extends StoreSections {
+  schemaVersion: number;
+  categories: Category[];
+  tombstones: Tombstone[];
+  activity: ActivityEntry[];
+}
 
-    this.registerView(
-      VIEW_TYPE_TASKS,
-      (leaf) => new TasksView(leaf, this)
-    );
+type ActivityAction = 'task-added' | 'task-removed' | 'task-completed' | 'task-reopened' | 'task-renamed' | 'task-edited'
+  | 'category-added' | 'category-removed' | 'category-renamed' | 'category-edited';
 
-    this.addRibbonIcon('list-checks', 'Simple tasks blocks', () => {
-      void this.activateView();
-    });
+interface ActivityChange {
+  action: ActivityAction;
+  name: string;
+  // New name for renames
+  detail?: string;
+}
 
-    this.addCommand({
-      id: 'create-new-task-category',
-      name: 'Create new task category',
-      callback: () => {
-        new AddCategoryModal(this.app, (name, firstTask, date) => {
-          void this.addCategory(name, firstTask, date);
-        }).open();
-      }
-    });
+// One write to a shared or vault file, attributed to the vault that made it
+interface ActivityEntry {
+  id: string;
+  at: number;
+  by: string;
+  vault: string;
+  changes: ActivityChange[];
+  // Changes left out of `changes` to keep the entry small
+  more?: number;
+}
 
-    this.addSettingTab(new SimpleTasksBlocksSettingTab(this.app, this));
-    this.setupSharedFileWatcher();
+const ACTIVITY_LOG_LIMIT = 200;
+const ACTIVITY_CHANGES_LIMIT = 20;
+// Changes listed in the notice shown when another vault edits a file
+const ACTIVITY_NOTICE_LIMIT = 3;
+
+const ACTIVITY_KEYS: Record<ActivityAction, keyof typeof MESSAGES['en']> = {
+  'task-added': 'ACTIVITY_TASK_ADDED',
+  'task-removed': 'ACTIVITY_TASK_REMOVED',
+  'task-completed': 'ACTIVITY_TASK_COMPLETED',
+  'task-reopened': 'ACTIVITY_TASK_REOPENED',
+  'task-renamed': 'ACTIVITY_TASK_RENAMED',
+  'task-edited': 'ACTIVITY_TASK_EDITED',
+  'category-added': 'ACTIVITY_CATEGORY_ADDED',
+  'category-removed': 'ACTIVITY_CATEGORY_REMOVED',
+  'category-renamed': 'ACTIVITY_CATEGORY_RENAMED',
+  'category-edited': 'ACTIVITY_CATEGORY_EDITED'
+};
+
+const LOCK_STALE_MS = 10000;
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 5000;
+
+// A shared file that failed validation, with the copy set aside before any recovery action
+interface SharedRecovery {
+  filePath: string;
+  quarantinePath: string;
+  problems: string[];
+}
+
+class SharedFileCorruptError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join('; '));
+    this.name = 'SharedFileCorruptError';
+    this.problems = problems;
   }
+}
 
-  setupSharedFileWatcher() {
-    if (this.settings.sharedFilePath) {
-      try {
-        if (fs.existsSync(this.settings.sharedFilePath)) {
-          let fsWait: NodeJS.Timeout | null = null;
-
-          fs.watch(this.settings.sharedFilePath, (eventType: string, filename: string) => {
-            if (filename && eventType === 'change') {
-              if (fsWait) return;
-
-              fsWait = setTimeout(() => {
-                fsWait = null;
-                if (this.settings.activeContext === 'shared') {
-                  const reloadBtn = document.querySelector('.stb-sync-icon');
-                  if (reloadBtn) {
-                    reloadBtn.addClass('is-spinning');
-                    setTimeout(() => reloadBtn.removeClass('is-spinning'), 800);
-                  }
-                  this.refreshViews(true);
-                }
-              }, 100);
-            }
-          });
-        }
-      } catch (e) {
-        // Ignore watcher error
-      }
+// Structural check run before anything is merged into or written over a shared file.
+function validateSharedData(data: unknown): string[] {
+  const problems: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return [t('PROBLEM_ROOT_NOT_OBJECT')];
+  const root = data as RawData;
+  if (!Array.isArray(root.categories)) return [t('PROBLEM_NOT_A_LIST', 'categories')];
+  (['tombstones', 'trash', 'archive', 'activity'] as const).forEach(key => {
+    if (root[key] !== undefined && !Array.isArray(root[key])) problems.push(t('PROBLEM_NOT_A_LIST', key));
+  });
+
+  (root.categories as unknown[]).forEach((rawCategory, i) => {
+    const categoryLabel = t('PROBLEM_CATEGORY_LABEL', (i + 1).toString());
+    if (!rawCategory || typeof rawCategory !== 'object') {
+      problems.push(t('PROBLEM_NOT_OBJECT', categoryLabel));
+      return;
+    }
+    const category = rawCategory as RawData;
+    if (typeof category.id !== 'string' || !category.id) problems.push(t('PROBLEM_NO_ID', categoryLabel));
+    if (typeof category.name !== 'string') problems.push(t('PROBLEM_NO_NAME', categoryLabel));
+    if (!Array.isArray(category.tasks)) {
+      problems.push(t('PROBLEM_NO_TASK_LIST', categoryLabel));
+      return;
     }
-  }
 
-  onunload() {
-    if (this.settings.sharedFilePath) {
-      try {
-        fs.unwatchFile(this.settings.sharedFilePath);
-      } catch {
-        // Ignore
+    (category.tasks as unknown[]).forEach((rawTask, j) => {
+      const label = t('PROBLEM_TASK_LABEL', (j + 1).toString(), (i + 1).toString());
+      if (!rawTask || typeof rawTask !== 'object') {
+        problems.push(t('PROBLEM_NOT_OBJECT', label));
+        return;
       }
-    }
-  }
+      const task = rawTask as RawData;
+      if (typeof task.id !== 'string' || !task.id) problems.push(t('PROBLEM_NO_ID', label));
+      if (typeof task.text !== 'string') problems.push(t('PROBLEM_NO_TEXT', label));
+      if (typeof task.completed !== 'boolean') problems.push(t('PROBLEM_INVALID_COMPLETION', label));
+      if (task.dueDate !== undefined && typeof task.dueDate !== 'string') problems.push(t('PROBLEM_INVALID_DUE_DATE', label));
+      if (task.startDate !== undefined && typeof task.startDate !== 'string') problems.push(t('PROBLEM_INVALID_START_DATE', label));
+      if (task.recurrenceExdates !== undefined && !Array.isArray(task.recurrenceExdates)) problems.push(t('PROBLEM_INVALID_EXDATES', label));
+      if (task.subtasks === undefined) return;
+      if (!Array.isArray(task.subtasks)) {
+        problems.push(t('PROBLEM_INVALID_SUBTASKS', label));
+        return;
+      }
+      (task.subtasks as unknown[]).forEach((rawSubtask, k) => {
+        const subtask = rawSubtask as RawData;
+        const subtaskLabel = t('PROBLEM_SUBTASK_LABEL', (k + 1).toString(), label);
+        if (!subtask || typeof subtask !== 'object') problems.push(t('PROBLEM_NOT_OBJECT', subtaskLabel));
+        else if (typeof subtask.id !== 'string' || !subtask.id || typeof subtask.text !== 'string') problems.push(t('PROBLEM_NO_ID_OR_TEXT', subtaskLabel));
+      });
+    });
+  });
+  return problems;
+}
 
-  async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-  }
+// Salvages what it can from a structurally broken file. Nothing is dropped except entries that are not objects.
+function repairSharedData(data: RawData): RawData {
+  const usedIds = new Set<string>();
+  const uniqueId = (id: unknown) => {
+    let result = typeof id === 'string' && id ? id : newId();
+    while (usedIds.has(result)) result = `${result}-${Math.random().toString(36).slice(2, 8)}`;
+    usedIds.add(result);
+    return result;
+  };
 
-  async saveSettings() {
-    await this.saveData(this.settings);
-    this.setupSharedFileWatcher();
-    this.refreshViews();
+  const rawCategories = Array.isArray(data.categories) ? data.categories as unknown[] : [];
+  const categories = rawCategories
+    .filter((c): c is RawData => !!c && typeof c === 'object')
+    .map(c => ({
+      ...c,
+      id: uniqueId(c.id),
+      name: typeof c.name === 'string' ? c.name : String(c.name ?? ''),
+      tasks: (Array.isArray(c.tasks) ? c.tasks as unknown[] : [])
+        .filter((task): task is RawData => !!task && typeof task === 'object')
+        .map(task => ({
+          ...task,
+          id: uniqueId(task.id),
+          text: typeof task.text === 'string' ? task.text : String(task.text ?? ''),
+          completed: task.completed === true,
+          dueDate: typeof task.dueDate === 'string' ? task.dueDate : undefined,
+          startDate: typeof task.startDate === 'string' ? task.startDate : undefined,
+          recurrenceExdates: Array.isArray(task.recurrenceExdates) ? task.recurrenceExdates : undefined,
+          subtasks: Array.isArray(task.subtasks)
+            ? (task.subtasks as unknown[])
+              .filter((subtask): subtask is RawData => !!subtask && typeof subtask === 'object')
+              .map(subtask => ({
+                ...subtask,
+                id: uniqueId(subtask.id),
+                text: typeof subtask.text === 'string' ? subtask.text : String(subtask.text ?? ''),
+                completed: subtask.completed === true
+              }))
+            : undefined
+        }))
+    }));
+
+  return {
+    ...data,
+    categories,
+    tombstones: Array.isArray(data.tombstones) ? data.tombstones : [],
+    trash: Array.isArray(data.trash) ? data.trash : [],
+    archive: Array.isArray(data.archive) ? data.archive : [],
+    activity: Array.isArray(data.activity) ? data.activity : []
+  };
+}
+
+function parseSharedContent(content: string): SharedFileData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (e) {
+    throw new SharedFileCorruptError([t('PROBLEM_INVALID_JSON', (e as Error).message)]);
   }
+  const problems = validateSharedData(raw);
+  if (problems.length > 0) throw new SharedFileCorruptError(problems);
+  const data = migrateData(raw as RawData, SHARED_MIGRATIONS) as unknown as SharedFileData;
+  repairDuplicateIds(data.categories);
+  return { ...data, categories: data.categories || [], tombstones: data.tombstones || [] };
+}
 
-  refreshViews(isSync = false) {
-    this.app.workspace.getLeavesOfType(VIEW_TYPE_TASKS).forEach(leaf => {
-      if (leaf.view instanceof TasksView) {
-        leaf.view.refresh();
-        if (isSync) {
-          leaf.view.triggerSyncEffect();
-        }
-      }
+// Ids written before they were random can repeat. Every category or task after the first one with a given id gets
+// a new id derived from it; the first keeps its id, so tombstones, trash entries and field stamps still point at it.
+// The new ids are deterministic, so every read of the same file repairs it the same way until the fix is written back.
+function repairDuplicateIds(categories: Category[]): number {
+  let repaired = 0;
+  const tasks = categories.flatMap(category => category.tasks);
+  const subtasks = tasks.flatMap(task => task.subtasks || []);
+  // Every id in use, including those of later items, so a new id never takes over one that is already referenced
+  const categoryIds = { all: new Set(categories.map(c => c.id)), seen: new Set<string>() };
+  const taskIds = { all: new Set([...tasks, ...subtasks].map(item => item.id)), seen: new Set<string>() };
+  const makeUnique = (ids: { all: Set<string>; seen: Set<string> }, item: { id: string }) => {
+    if (ids.seen.has(item.id)) {
+      let n = 2;
+      while (ids.all.has(`${item.id}-${n}`)) n++;
+      item.id = `${item.id}-${n}`;
+      ids.all.add(item.id);
+      repaired++;
+    }
+    ids.seen.add(item.id);
+  };
+  categories.forEach(category => {
+    makeUnique(categoryIds, category);
+    category.tasks.forEach(task => {
+      makeUnique(taskIds, task);
+      task.subtasks?.forEach(subtask => makeUnique(taskIds, subtask));
     });
-  }
+  });
+  return repaired;
+}
+
+function emptySharedData(): SharedFileData {
+  return { schemaVersion: SHARED_SCHEMA_VERSION, categories: [], tombstones: [], trash: [], archive: [], activity: [] };
+}
 
-  getCategories(isShared?: boolean): Category[] {
-    const useShared = isShared !== undefined ? isShared : (this.settings.activeContext === 'shared');
+// Detached copy of the sections of `data`, which may be a whole settings object or shared file
+function copySections(data: StoreSections): StoreSections {
+  return JSON.parse(JSON.stringify({ trash: data.trash || [], archive: data.archive || [] })) as StoreSections;
+}
 
-    if (useShared && this.settings.sharedFilePath) {
-      try {
-        if (fs.existsSync(this.settings.sharedFilePath)) {
-          const content = fs.readFileSync(this.settings.sharedFilePath, 'utf8');
-          const data = JSON.parse(content);
-          return data.categories || [];
-        }
-      } catch (e) {
-        new Notice(t('ERR_READ_SHARED'));
-      }
-      return [];
+function readSharedFile(filePath: string): SharedFileData {
+  if (!fs.existsSync(filePath)) return emptySharedData();
+  return parseSharedContent(fs.readFileSync(filePath, 'utf8'));
+}
+
+function addTombstones(data: SharedFileData, kind: Tombstone['kind'], ids: string[]) {
+  const deletedAt = Date.now();
+  ids.forEach(id => {
+    if (!data.tombstones.some(ts => ts.kind === kind && ts.id === id)) {
+      data.tombstones.push({ id, kind, deletedAt });
     }
-    return this.settings.categories;
-  }
+  });
+}
 
-  async saveCategories(categories: Category[], isShared?: boolean) {
-    const useShared = isShared !== undefined ? isShared : (this.settings.activeContext === 'shared');
+const UNTRACKED_FIELDS = ['id', 'tasks', 'subtasks', 'updatedAt'];
 
-    if (useShared && this.settings.sharedFilePath) {
-      try {
-        let freshCategories: Category[] = [];
-        if (fs.existsSync(this.settings.sharedFilePath)) {
-          try {
-            const content = fs.readFileSync(this.settings.sharedFilePath, 'utf8');
-            const data = JSON.parse(content);
-            freshCategories = data.categories || [];
-          } catch {
-            // Ignore read error
-          }
+type Stamped = Task | Category | Subtask;
+
+function trackedFields(...items: Stamped[]): string[] {
+  const fields = new Set<string>();
+  items.forEach(item => Object.keys(item).forEach(key => fields.add(key)));
+  return Array.from(fields).filter(key => !UNTRACKED_FIELDS.includes(key));
+}
+
+// Stamps every field of `item` that differs from what was last read from disk.
+function stampChanges(item: Stamped, baseline: Stamped | undefined, stamp: FieldStamp) {
+  const current = item as unknown as Record<string, unknown>;
+  const previous = (baseline || {}) as Record<string, unknown>;
+  const fields = baseline ? trackedFields(item, baseline) : trackedFields(item);
+  fields.forEach(field => {
+    if (JSON.stringify(current[field]) !== JSON.stringify(previous[field])) {
+      item.updatedAt = { ...item.updatedAt, [field]: stamp };
+    }
+  });
+}
+
+// Last writer wins, ties broken by writer id. Unstamped legacy fields count as time 0.
+function isNewerStamp(a: FieldStamp | undefined, b: FieldStamp | undefined): boolean {
+  const atA = a?.at ?? 0;
+  const atB = b?.at ?? 0;
+  if (atA !== atB) return atA > atB;
+  return (a?.by ?? '') >= (b?.by ?? '');
+}
+
+function mergeFields<T extends Stamped>(disk: T, local: T): T {
+  const merged = { ...disk, updatedAt: { ...disk.updatedAt } } as T;
+  const target = merged as unknown as Record<string, unknown>;
+  const source = local as unknown as Record<string, unknown>;
+  trackedFields(disk, local).forEach(field => {
+    const localStamp = local.updatedAt?.[field];
+    if (isNewerStamp(localStamp, disk.updatedAt?.[field])) {
+      target[field] = source[field];
+      if (localStamp && merged.updatedAt) merged.updatedAt[field] = localStamp;
+    }
+  });
+  return merged;
+}
+
+// Merges two versions of a list field by field. Items only one side has are kept unless deleted, and the order
+// follows the local list, with items this vault has not seen yet at the end.
+function mergeItems<T extends Stamped>(diskItems: T[], localItems: T[], deleted: Set<string>): T[] {
+  const localById = new Map(localItems.map(item => [item.id, item]));
+  const merged = diskItems.map(item => {
+    const localItem = localById.get(item.id);
+    return localItem ? mergeFields(item, localItem) : item;
+  });
+  localItems.forEach(item => {
+    if (!diskItems.some(diskItem => diskItem.id === item.id)) merged.push(item);
+  });
+
+  const localOrder = new Map(localItems.map((item, i) => [item.id, i]));
+  merged.sort((a, b) => (localOrder.get(a.id) ?? 999999999) - (localOrder.get(b.id) ?? 999999999));
+  return merged.filter(item => !deleted.has(item.id));
+}
+
+// Reconciles a full category list from this vault with what is on disk, honoring tombstones and field stamps.
+function mergeCategories(freshCategories: Category[], categories: Category[], tombstones: Tombstone[] = []): Category[] {
+  const deletedCategories = new Set(tombstones.filter(ts => ts.kind === 'category').map(ts => ts.id));
+  const deletedTasks = new Set(tombstones.filter(ts => ts.kind === 'task').map(ts => ts.id));
+  const deletedSubtasks = new Set(tombstones.filter(ts => ts.kind === 'subtask').map(ts => ts.id));
+  const mergedCategories = freshCategories.filter(c => !deletedCategories.has(c.id));
+
+  categories.forEach(localCat => {
+    if (deletedCategories.has(localCat.id)) return;
+    localCat = { ...localCat, tasks: localCat.tasks.filter(lt => !deletedTasks.has(lt.id)) };
+    const diskCatIndex = mergedCategories.findIndex(dc => dc.id === localCat.id);
+    if (diskCatIndex !== -1) {
+      const diskCat = mergeFields(mergedCategories[diskCatIndex], localCat);
+      mergedCategories[diskCatIndex] = diskCat;
+
+      const localTasksMap = new Map(localCat.tasks.map(t => [t.id, t]));
+      const diskTasksMap = new Map(diskCat.tasks.map(t => [t.id, t]));
+      diskCat.tasks = mergeItems(diskCat.tasks, localCat.tasks, deletedTasks);
+
+      // Subtasks are merged one level down the same way; tasks only one side has keep their own list
+      diskCat.tasks.forEach(task => {
+        const localTask = localTasksMap.get(task.id);
+        const diskTask = diskTasksMap.get(task.id);
+        if (localTask && diskTask && (localTask.subtasks || diskTask.subtasks)) {
+          task.subtasks = mergeItems(diskTask.subtasks || [], localTask.subtasks || [], deletedSubtasks);
+        } else if (task.subtasks) {
+          task.subtasks = task.subtasks.filter(subtask => !deletedSubtasks.has(subtask.id));
         }
+      });
+    } else {
+      mergedCategories.push(localCat);
+    }
+  });
 
-        const mergedCategories = [...freshCategories];
+  const localCatOrder = new Map<string, number>();
+  categories.forEach((c, i) => localCatOrder.set(c.id, i));
 
-        categories.forEach(localCat => {
-          const diskCatIndex = mergedCategories.findIndex(dc => dc.id === localCat.id);
-          if (diskCatIndex !== -1) {
-            const diskCat = mergedCategories[diskCatIndex];
-            diskCat.name = localCat.name;
-            diskCat.color = localCat.color;
-            diskCat.isCollapsed = localCat.isCollapsed;
-            diskCat.lastSortOrder = localCat.lastSortOrder;
+  mergedCategories.sort((a, b) => {
+    const idxA = localCatOrder.get(a.id) ?? 999999999;
+    const idxB = localCatOrder.get(b.id) ?? 999999999;
+    return idxA - idxB;
+  });
 
-            const localTasksMap = new Map(localCat.tasks.map(t => [t.id, t]));
-            const diskTasks = diskCat.tasks;
+  return mergedCategories;
+}
 
-            const mergedTasks = diskTasks.map(dt => {
-              const localTask = localTasksMap.get(dt.id);
-              if (localTask) return localTask;
-              return dt;
-            });
+// Applies a whole-list save from this vault onto freshly read file data. Fields that differ from `baseline`
+// (the data as this vault last read it) are stamped so the merge keeps them over older disk values.
+function applySave(data: SharedFileData, categories: Category[], baseline: Map<string, Stamped>, stamp: FieldStamp, retentionDays: number, vaultName: string) {
+  const previous = data.categories;
+  pruneTombstones(data, retentionDays);
+  categories.forEach(c => {
+    stampChanges(c, baseline.get(`category:${c.id}`), stamp);
+    c.tasks.forEach(task => {
+      stampChanges(task, baseline.get(`task:${task.id}`), stamp);
+      task.subtasks?.forEach(subtask => stampChanges(subtask, baseline.get(`subtask:${subtask.id}`), stamp));
+    });
+  });
+  data.categories = mergeCategories(data.categories, categories, data.tombstones);
+  logActivity(data, previous, stamp, vaultName);
+}
 
-            localCat.tasks.forEach(lt => {
-              if (!diskTasks.find(dt => dt.id === lt.id)) {
-                mergedTasks.push(lt);
-              }
-            });
+// Runs `fn` on freshly read file data, so nothing needs merging: the changes it makes are stamped, and
+// removed tasks and categories are recorded as tombstones. Returns false when `fn` declined the change.
+function applyMutation(data: SharedFileData, fn: StoreMutation, stamp: FieldStamp, retentionDays: number, vaultName: string): boolean {
+  const previous = JSON.parse(JSON.stringify(data.categories)) as Category[];
+  const before = indexItems(previous);
+  if (fn(data.categories, data) === false) return false;
+  logActivity(data, previous, stamp, vaultName);
+
+  const after = indexItems(data.categories);
+  after.forEach((item, key) => stampChanges(item, before.get(key), stamp));
+
+  const removed = Array.from(before.keys()).filter(key => !after.has(key));
+  addTombstones(data, 'category', removed.filter(key => key.startsWith('category:')).map(key => key.slice(9)));
+  addTombstones(data, 'task', removed.filter(key => key.startsWith('task:')).map(key => key.slice(5)));
+  addTombstones(data, 'subtask', removed.filter(key => key.startsWith('subtask:')).map(key => key.slice(8)));
+  data.tombstones = data.tombstones.filter(ts => !after.has(`${ts.kind}:${ts.id}`));
+  pruneTombstones(data, retentionDays);
+  return true;
+}
 
-            const localIdToIndex = new Map<string, number>();
-            localCat.tasks.forEach((t, i) => localIdToIndex.set(t.id, i));
+// What a write changed, in terms a reader of the activity log cares about. Collapsing and sorting are left out.
+function describeChanges(before: Category[], after: Category[]): ActivityChange[] {
+  const changes: ActivityChange[] = [];
+  const differs = (a: object, b: object, ignored: string[]) => {
+    const strip = (item: object) => JSON.stringify(Object.entries(item).filter(([key]) => !ignored.includes(key)).sort());
+    return strip(a) !== strip(b);
+  };
 
-            mergedTasks.sort((a, b) => {
-              const idxA = localIdToIndex.get(a.id) ?? 999999999;
-              const idxB = localIdToIndex.get(b.id) ?? 999999999;
-              return idxA - idxB;
-            });
+  const beforeCategories = new Map(before.map(c => [c.id, c]));
+  const afterIds = new Set(after.map(c => c.id));
+  after.forEach(category => {
+    const old = beforeCategories.get(category.id);
+    if (!old) changes.push({ action: 'category-added', name: category.name });
+    else if (old.name !== category.name) changes.push({ action: 'category-renamed', name: old.name, detail: category.name });
+    else if (differs(old, category, ['tasks', 'updatedAt', 'isCollapsed', 'lastSortOrder'])) changes.push({ action: 'category-edited', name: category.name });
+  });
+  before.filter(c => !afterIds.has(c.id)).forEach(c => changes.push({ action: 'category-removed', name: c.name }));
+
+  const beforeTasks = new Map(before.flatMap(c => c.tasks.map(task => [task.id, task] as [string, Task])));
+  const afterTasks = new Map(after.flatMap(c => c.tasks.map(task => [task.id, task] as [string, Task])));
+  afterTasks.forEach((task, id) => {
+    const old = beforeTasks.get(id);
+    if (!old) changes.push({ action: 'task-added', name: task.text });
+    else if (!old.completed && task.completed) changes.push({ action: 'task-completed', name: task.text });
+    else if (old.completed && !task.completed) changes.push({ action: 'task-reopened', name: task.text });
+    else if (old.text !== task.text) changes.push({ action: 'task-renamed', name: old.text, detail: task.text });
+    else if (differs(old, task, ['updatedAt'])) changes.push({ action: 'task-edited', name: task.text });
+  });
+  beforeTasks.forEach((task, id) => {
+    if (!afterTasks.has(id)) changes.push({ action: 'task-removed', name: task.text });
+  });
+  return changes;
+}
 
-            diskCat.tasks = mergedTasks;
-          } else {
-            mergedCategories.push(localCat);
-          }
-        });
+// Appends an entry for the changes between `previous` and the current categories, keeping the log bounded
+function logActivity(data: SharedFileData, previous: Category[], stamp: FieldStamp, vaultName: string) {
+  const changes = describeChanges(previous, data.categories);
+  if (changes.length === 0) return;
+  const entry: ActivityEntry = {
+    id: newId(),
+    at: stamp.at,
+    by: stamp.by,
+    vault: vaultName,
+    changes: changes.slice(0, ACTIVITY_CHANGES_LIMIT)
+  };
+  if (changes.length > ACTIVITY_CHANGES_LIMIT) entry.more = changes.length - ACTIVITY_CHANGES_LIMIT;
+  data.activity = [...(data.activity || []), entry].slice(-ACTIVITY_LOG_LIMIT);
+}
 
-        const localCatOrder = new Map<string, number>();
-        categories.forEach((c, i) => localCatOrder.set(c.id, i));
+function describeActivityChange(change: ActivityChange): string {
+  return t(ACTIVITY_KEYS[change.action], change.name, change.detail || '');
+}
 
-        mergedCategories.sort((a, b) => {
-          const idxA = localCatOrder.get(a.id) ?? 999999999;
-          const idxB = localCatOrder.get(b.id) ?? 999999999;
-          return idxA - idxB;
-        });
+// Every category, task and subtask keyed as `category:<id>` / `task:<id>` / `subtask:<id>`
+function indexItems(categories: Category[]): Map<string, Stamped> {
+  const items = new Map<string, Stamped>();
+  categories.forEach(c => {
+    items.set(`category:${c.id}`, c);
+    c.tasks.forEach(task => {
+      items.set(`task:${task.id}`, task);
+      task.subtasks?.forEach(subtask => items.set(`subtask:${subtask.id}`, subtask));
+    });
+  });
+  return items;
+}
 
-        const data = { categories: mergedCategories };
-				try {
-					fs.writeFileSync(this.settings.sharedFilePath, JSON.stringify(data, null, 2));
-					this.refreshViews();
-				} catch (err) {
-					throw new Error(`Failed to write file: ${err}`);
-				}
+function pruneTombstones(data: SharedFileData, retentionDays: number) {
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  data.tombstones = data.tombstones.filter(ts => ts.deletedAt >= cutoff);
+}
 
-			} catch (e) {
-				new Notice(`${t('ERR_SAVE_SHARED')}: ${String(e)}`);
-			}
-		} else {
-      this.settings.categories = categories;
-      await this.saveSettings();
+// Refuses to overwrite a file written by a newer version of the plugin
+function assertWritableSchema(data: SharedFileData) {
+  if (data.schemaVersion > SHARED_SCHEMA_VERSION) {
+    throw new Error(t('ERR_SCHEMA_TOO_NEW', data.schemaVersion.toString(), SHARED_SCHEMA_VERSION.toString()));
+  }
+}
+
+// Writes to a sibling temp file and renames it into place, so readers never see a half-written file.
+function writeSharedFile(filePath: string, data: SharedFileData) {
+  assertWritableSchema(data);
+  const tmpPath = `${filePath}.${process.pid}-${Date.now()}.tmp`;
+  try {
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(data, null, 2));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
     }
+    // Keep the last good version around for the recovery modal
+    if (fs.existsSync(filePath)) fs.copyFileSync(filePath, `${filePath}.bak`);
+    fs.renameSync(tmpPath, filePath);
+  } catch (e) {
+    try { fs.unlinkSync(tmpPath); } catch { /* Temp file may not exist */ }
+    throw e;
   }
+}
 
-  async cleanCompletedTasks(isShared?: boolean) {
-    const useShared = isShared !== undefined ? isShared : (this.settings.activeContext === 'shared');
+// Moves a stale lock out of the way with an atomic rename, so that of several waiters only one removes it. Should
+// another waiter have replaced it with a fresh lock in the meantime, that lock is put back untouched.
+function takeOverStaleLock(lockPath: string, staleToken: string, token: string) {
+  const movedPath = `${lockPath}.${token}`;
+  fs.renameSync(lockPath, movedPath);
+  if (fs.readFileSync(movedPath, 'utf8') !== staleToken) {
+    try {
+      fs.linkSync(movedPath, lockPath);
+    } catch {
+      // Yet another lock took its place; the fresh one is lost either way
+    }
+  }
+  fs.unlinkSync(movedPath);
+}
 
-    if (useShared && this.settings.sharedFilePath) {
+// Advisory lock shared by every vault pointing at the same file. A lock older than
+// LOCK_STALE_MS is assumed to belong to a crashed writer and is taken over.
+async function withSharedFileLock<T>(filePath: string, fn: () => T | Promise<T>): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const token = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  const start = Date.now();
+
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, token, { flag: 'wx' });
+      break;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
       try {
-        if (fs.existsSync(this.settings.sharedFilePath)) {
-          const content = fs.readFileSync(this.settings.sharedFilePath, 'utf8');
-          const data = JSON.parse(content) as { categories: Category[] };
-          const categories = data.categories || [];
-
-          let changed = false;
-          categories.forEach((c) => {
-            const originalLength = c.tasks.length;
-            c.tasks = c.tasks.filter((t) => !t.completed);
-            if (c.tasks.length !== originalLength) changed = true;
-          });
-
-          if (changed) {
-            const newData = { categories: categories };
-            fs.writeFileSync(this.settings.sharedFilePath, JSON.stringify(newData, null, 2));
-            this.refreshViews();
-            new Notice(t('NOTICE_CLEANED_SHARED'));
-          } else {
-            new Notice(t('NOTICE_NO_CLEAN'));
-          }
+        const stat = fs.statSync(lockPath);
+        if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+          takeOverStaleLock(lockPath, fs.readFileSync(lockPath, 'utf8'), token);
+          continue;
         }
-      } catch (e) {
-        new Notice(t('ERR_CLEAN_SHARED'));
+      } catch {
+        // Lock released between our attempts, retry immediately
+        continue;
       }
-    } else {
-      const categories = this.settings.categories;
-      let changed = false;
-      categories.forEach(c => {
-        const originalLength = c.tasks.length;
-        c.tasks = c.tasks.filter(t => !t.completed);
-        if (c.tasks.length !== originalLength) changed = true;
-      });
-
-      if (changed) {
-        await this.saveSettings();
-        new Notice(t('NOTICE_CLEANED_LOCAL'));
-      } else {
-        new Notice(t('NOTICE_NO_CLEAN'));
+      if (Date.now() - start > LOCK_TIMEOUT_MS) {
+        throw new Error(t('ERR_LOCK_TIMEOUT'));
       }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
     }
   }
 
-  async updateTaskDate(categoryId: string, taskId: string, date: string) {
-    const categories = this.getCategories();
-    const category = categories.find(c => c.id === categoryId);
-    if (category) {
-      const task = category.tasks.find(t => t.id === taskId);
-      if (task) {
-        task.dueDate = date;
-        await this.saveCategories(categories);
-      }
+  try {
+    return await fn();
+  } finally {
+    try {
+      if (fs.readFileSync(lockPath, 'utf8') === token) fs.unlinkSync(lockPath);
+    } catch {
+      // Lock already gone
     }
   }
+}
 
-  async updateTaskScratchpad(categoryId: string, taskId: string, content: string) {
-    const categories = this.getCategories();
-    const category = categories.find(c => c.id === categoryId);
-    if (category) {
-      const task = category.tasks.find(t => t.id === taskId);
-      if (task) {
-        task.scratchpad = content;
-        await this.saveCategories(categories);
+// --- Shared File Watcher ---
+
+const WATCH_DEBOUNCE_MS = 100;
+const POLL_INTERVAL_MS = 2000;
+const SAFETY_POLL_INTERVAL_MS = 10000;
+
+interface WatchEntry {
+  watcher: NodeFs.FSWatcher | null;
+  pollTimer: number | null;
+  debounceTimer: number | null;
+  lastSignature: string;
+  onChange: () => void;
+}
+
+// Keeps exactly one watcher per path. The parent folder is watched rather than the file itself so the
+// watch survives sync tools (and our own atomic writes) replacing the file by rename. Modification time is
+// polled as well, slowly as a safety net, or as the only mechanism when fs.watch is unavailable or unreliable.
+class SharedFileWatcher {
+  entries = new Map<string, WatchEntry>();
+
+  watch(filePath: string, onChange: () => void, forcePolling: boolean) {
+    const existing = this.entries.get(filePath);
+    if (existing) {
+      existing.onChange = onChange;
+      return;
+    }
+
+    const entry: WatchEntry = {
+      watcher: null,
+      pollTimer: null,
+      debounceTimer: null,
+      lastSignature: this.signature(filePath),
+      onChange
+    };
+    this.entries.set(filePath, entry);
+
+    if (!forcePolling) {
+      try {
+        const fileName = path.basename(filePath);
+        entry.watcher = fs.watch(path.dirname(filePath), (_eventType, changed) => {
+          if (!changed || changed.toString() === fileName) this.check(filePath);
+        });
+        entry.watcher.on('error', () => this.fallBackToPolling(filePath));
+      } catch {
+        entry.watcher = null;
       }
     }
+    this.startPolling(entry, filePath, entry.watcher ? SAFETY_POLL_INTERVAL_MS : POLL_INTERVAL_MS);
   }
 
-  async updateCategoryCollapse(categoryId: string, isCollapsed: boolean) {
-    const categories = this.getCategories();
-    const category = categories.find(c => c.id === categoryId);
-    if (category) {
-      category.isCollapsed = isCollapsed;
-      await this.saveCategories(categories);
-    }
+  unwatch(filePath: string) {
+    const entry = this.entries.get(filePath);
+    if (!entry) return;
+    entry.watcher?.close();
+    if (entry.pollTimer !== null) window.clearInterval(entry.pollTimer);
+    if (entry.debounceTimer !== null) window.clearTimeout(entry.debounceTimer);
+    this.entries.delete(filePath);
   }
 
-  async updateCategoryColor(categoryId: string, color: string) {
-    const categories = this.getCategories();
-    const category = categories.find(c => c.id === categoryId);
-    if (category) {
-      category.color = color;
-      await this.saveCategories(categories);
-    }
+  unwatchAll() {
+    Array.from(this.entries.keys()).forEach(filePath => this.unwatch(filePath));
   }
 
-  async addCategory(name: string, firstTaskText: string, dueDate?: string) {
-    const categories = this.getCategories();
-    const newCategory: Category = {
-      id: Date.now().toString(),
-      name: name,
-      tasks: [],
-      isCollapsed: false,
-      color: ''
-    };
+  private fallBackToPolling(filePath: string) {
+    const entry = this.entries.get(filePath);
+    if (!entry || !entry.watcher) return;
+    entry.watcher.close();
+    entry.watcher = null;
+    this.startPolling(entry, filePath, POLL_INTERVAL_MS);
+  }
 
-    if (firstTaskText) {
-      newCategory.tasks.push({
-        id: Date.now().toString() + '-task',
-        text: firstTaskText,
-        completed: false,
-        dueDate: dueDate
-      });
+  private startPolling(entry: WatchEntry, filePath: string, interval: number) {
+    if (entry.pollTimer !== null) window.clearInterval(entry.pollTimer);
+    entry.pollTimer = window.setInterval(() => this.check(filePath), interval);
+  }
+
+  private signature(filePath: string): string {
+    try {
+      const stat = fs.statSync(filePath);
+      return `${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return 'missing';
     }
+  }
+
+  // Debounced so a burst of events from one write, or a watch event and a poll, only notify once
+  private check(filePath: string) {
+    const entry = this.entries.get(filePath);
+    if (!entry || entry.debounceTimer !== null) return;
+    entry.debounceTimer = window.setTimeout(() => {
+      entry.debounceTimer = null;
+      const signature = this.signature(filePath);
+      if (signature === entry.lastSignature || signature === 'missing') return;
+      entry.lastSignature = signature;
+      entry.onChange();
+    }, WATCH_DEBOUNCE_MS);
+  }
+}
+
+// --- Task Stores ---
+
+// Changes categories and store sections in place; returning false cancels the write
+type StoreMutation = (categories: Category[], sections: StoreSections) => boolean | void;
+
+// Storage backend for a list of categories. Every read and write made by the plugin and its view goes through one.
+export interface TaskStore {
+  // Current categories. The result may be modified and handed back to save().
+  load(): Category[];
+  // Current trash and other sections, as a detached copy
+  loadSections(): StoreSections;
+  // Writes a whole category list, reconciled with concurrent changes where the backend supports it.
+  // Resolves to whether it was written.
+  save(categories: Category[]): Promise<boolean>;
+  // Runs `fn` on the freshest data and writes the result in one step. `fn` returning false skips the write.
+  // Resolves to whether anything was written.
+  mutate(fn: StoreMutation): Promise<boolean>;
+  // Calls `onChange` when the data is changed from outside this vault. Returns a function that stops watching.
+  watch(onChange: () => void): () => void;
+}
+
+class LocalSettingsStore implements TaskStore {
+  plugin: SimpleTasksBlocksPlugin;
 
-    categories.push(newCategory);
-    await this.saveCategories(categories);
+  constructor(plugin: SimpleTasksBlocksPlugin) {
+    this.plugin = plugin;
   }
 
-  async deleteCategory(categoryId: string, isShared?: boolean) {
-    const useShared = isShared !== undefined ? isShared : (this.settings.activeContext === 'shared');
+  // A copy, as with the other stores: changes only count once they go through save() or mutate()
+  load(): Category[] {
+    return JSON.parse(JSON.stringify(this.plugin.settings.categories)) as Category[];
+  }
 
-    if (useShared && this.settings.sharedFilePath) {
-      try {
-        if (fs.existsSync(this.settings.sharedFilePath)) {
-          const content = fs.readFileSync(this.settings.sharedFilePath, 'utf8');
-          const data = JSON.parse(content) as { categories: Category[] };
-          let categories = data.categories || [];
-          const initialLength = categories.length;
-          categories = categories.filter((c) => c.id !== categoryId);
-
-          if (categories.length !== initialLength) {
-            const newData = { categories: categories };
-            fs.writeFileSync(this.settings.sharedFilePath, JSON.stringify(newData, null, 2));
-            this.refreshViews();
-          }
-        }
-      } catch (e) {
-        new Notice(t('ERR_DEL_SHARED_CAT'));
-      }
-    } else {
-      this.settings.categories = this.settings.categories.filter(c => c.id !== categoryId);
-      await this.saveSettings();
-    }
+  loadSections(): StoreSections {
+    return copySections(this.plugin.settings);
   }
 
-  async duplicateTask(categoryId: string, taskId: string) {
-    const categories = this.getCategories();
-    const category = categories.find(c => c.id === categoryId);
-    if (category) {
-      const taskIndex = category.tasks.findIndex(t => t.id === taskId);
-      if (taskIndex !== -1) {
-        const taskToDuplicate = category.tasks[taskIndex];
-        const newTask: Task = {
-          ...taskToDuplicate,
-          id: Date.now().toString() + '-copy',
-        };
+  async save(categories: Category[]): Promise<boolean> {
+    this.plugin.settings.categories = categories;
+    await this.plugin.saveSettings();
+    return true;
+  }
 
-        category.tasks.splice(taskIndex + 1, 0, newTask);
-        await this.saveCategories(categories);
-      }
+  async mutate(fn: StoreMutation): Promise<boolean> {
+    if (fn(this.plugin.settings.categories, this.plugin.settings) === false) return false;
+    await this.plugin.saveSettings();
+    return true;
+  }
+
+  watch(): () => void {
+    // Plugin data only changes through this vault
+    return () => undefined;
+  }
+}
+
+class SharedFileStore implements TaskStore {
+  plugin: SimpleTasksBlocksPlugin;
+  filePath: string;
+  // File content as last read, used to find which fields this vault changed before a save()
+  baseline = new Map<string, Stamped>();
+
+  constructor(plugin: SimpleTasksBlocksPlugin, filePath: string) {
+    this.plugin = plugin;
+    this.filePath = filePath;
+  }
+
+  load(): Category[] {
+    try {
+      const categories = readSharedFile(this.filePath).categories;
+      this.rememberBaseline(categories);
+      this.plugin.sharedRecoveries.delete(this.filePath);
+      return categories;
+    } catch (e) {
+      this.plugin.reportSharedError(this.filePath, e, t('ERR_READ_SHARED'));
     }
+    return [];
   }
 
-  async deleteTask(categoryId: string, taskId: string, isShared?: boolean) {
-    const useShared = isShared !== undefined ? isShared : (this.settings.activeContext === 'shared');
+  // Read errors are reported by load(), which the view always calls first
+  loadSections(): StoreSections {
+    try {
+      return copySections(readSharedFile(this.filePath));
+    } catch {
+      return copySections(emptySharedData());
+    }
+  }
 
-    if (useShared && this.settings.sharedFilePath) {
-      try {
-        if (fs.existsSync(this.settings.sharedFilePath)) {
-          const content = fs.readFileSync(this.settings.sharedFilePath, 'utf8');
-          const data = JSON.parse(content) as { categories: Category[] };
-          const categories = data.categories || [];
-          const category = categories.find((c: Category) => c.id === categoryId);
-          if (category) {
-            category.tasks = category.tasks.filter((t) => t.id !== taskId);
-            const newData = { categories: categories };
-            fs.writeFileSync(this.settings.sharedFilePath, JSON.stringify(newData, null, 2));
-            this.refreshViews();
-          }
+  async save(categories: Category[]): Promise<boolean> {
+    if (!this.plugin.canWriteShared(this.filePath)) return false;
+    try {
+      await withSharedFileLock(this.filePath, () => {
+        const data = readSharedFile(this.filePath);
+        applySave(data, categories, this.baseline, this.plugin.newStamp(), this.plugin.settings.tombstoneRetentionDays, this.plugin.app.vault.getName());
+        try {
+          writeSharedFile(this.filePath, data);
+        } catch (err) {
+          throw new Error(`Failed to write file: ${err}`);
         }
-      } catch {
-        new Notice(t('ERR_DEL_SHARED_TASK'));
-      }
-    } else {
-      const categories = this.settings.categories;
-      const category = categories.find(c => c.id === categoryId);
-      if (category) {
-        category.tasks = category.tasks.filter(t => t.id !== taskId);
-        await this.saveSettings();
-      }
+        this.rememberBaseline(data.categories);
+      });
+      this.plugin.refreshViews();
+      return true;
+    } catch (e) {
+      this.plugin.reportSharedError(this.filePath, e, `${t('ERR_SAVE_SHARED')}: ${String(e)}`);
+      return false;
     }
   }
 
-  async activateView() {
-    const { workspace } = this.app;
-    let leaf: WorkspaceLeaf | null = null;
-    const leaves = workspace.getLeavesOfType(VIEW_TYPE_TASKS);
-
-    if (leaves.length > 0) {
-      leaf = leaves[0];
-    } else {
-      leaf = workspace.getRightLeaf(false);
-      await leaf.setViewState({ type: VIEW_TYPE_TASKS, active: true });
+  // Runs under the file lock so no other vault can write between the read and the write
+  async mutate(fn: StoreMutation): Promise<boolean> {
+    if (!this.plugin.canWriteShared(this.filePath)) return false;
+    try {
+      const saved = await withSharedFileLock(this.filePath, () => {
+        const data = readSharedFile(this.filePath);
+        if (!applyMutation(data, fn, this.plugin.newStamp(), this.plugin.settings.tombstoneRetentionDays, this.plugin.app.vault.getName())) return false;
+        writeSharedFile(this.filePath, data);
+        this.rememberBaseline(data.categories);
+        return true;
+      });
+      if (saved) this.plugin.refreshViews();
+      return saved;
+    } catch (e) {
+      this.plugin.reportSharedError(this.filePath, e, `${t('ERR_SAVE_SHARED')}: ${String(e)}`);
+      return false;
     }
-    await workspace.revealLeaf(leaf);
   }
-}
 
-// --- Settings Tab ---
+  watch(onChange: () => void): () => void {
+    this.plugin.sharedWatcher.watch(this.filePath, onChange, this.plugin.settings.pollSharedFile);
+    return () => this.plugin.sharedWatcher.unwatch(this.filePath);
+  }
 
-class SimpleTasksBlocksSettingTab extends PluginSettingTab {
+  rememberBaseline(categories: Category[]) {
+    this.baseline = indexItems(JSON.parse(JSON.stringify(categories)) as Category[]);
+  }
+}
+
+// Task data in a JSON file inside the vault, read and written through Obsidian's Vault API so it works on
+// every platform and syncs with Obsidian Sync, iCloud or Git. Uses the shared-file format, so edits
+// arriving from another device are merged the same way.
+class VaultFileStore implements TaskStore {
   plugin: SimpleTasksBlocksPlugin;
+  filePath: string;
+  // Last content read from the vault; load() must stay synchronous for rendering
+  data: SharedFileData | null = null;
+  baseline = new Map<string, Stamped>();
 
-  constructor(app: App, plugin: SimpleTasksBlocksPlugin) {
-    super(app, plugin);
+  constructor(plugin: SimpleTasksBlocksPlugin, filePath: string) {
     this.plugin = plugin;
+    this.filePath = filePath;
   }
 
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
+  async reload() {
+    const adapter = this.plugin.app.vault.adapter;
+    try {
+      this.data = (await adapter.exists(this.filePath))
+        ? parseSharedContent(await adapter.read(this.filePath))
+        : emptySharedData();
+    } catch (e) {
+      this.data = null;
+      new Notice(t('ERR_READ_VAULT_FILE', this.filePath));
+    }
+  }
 
-    new Setting(containerEl)
-      .setName(t('SETTING_PATH_NAME'))
-      .setDesc(t('SETTING_PATH_DESC'))
-      .addText(text => text
-        .setValue(this.plugin.settings.sharedFilePath || '')
-        .setPlaceholder(t('SETTING_PATH_PLACEHOLDER'))
-        .setDisabled(true)
-      )
-      .addButton(btn => btn
-        .setButtonText(t('BTN_BROWSE'))
-        .setTooltip(t('TIP_SELECT_FILE'))
-        .onClick(() => {
-          try {
-            const input = document.createElement('input');
-            input.type = 'file';
-            input.accept = '.json';
-            input.setCssProps({ display: 'none' });
-            document.body.appendChild(input);
-            input.onchange = async () => {
-              if (input.files && input.files.length > 0) {
-                const file = input.files[0];
-                const filePath = (file as File & { path: string }).path;
-
-                if (filePath) {
-                  this.plugin.settings.sharedFilePath = filePath;
-                  await this.plugin.saveSettings();
-                  this.display();
-                  new Notice(t('NOTICE_SHARED_ENABLED', filePath));
-                }
-              }
-              document.body.removeChild(input);
-            };
-
-            input.click();
-            setTimeout(() => {
-              if (document.body.contains(input)) {
-                document.body.removeChild(input);
-              }
-            }, 30000);
-
-          } catch (e) {
-            new Notice(t('ERR_FILE_PICKER'));
-          }
-        }))
-      .addButton(btn => btn
-        .setButtonText(t('BTN_CREATE_NEW'))
-        .setTooltip(t('TIP_CREATE_FILE'))
-        .onClick(async () => {
-          try {
-            let remote: ElectronRemote | undefined;
-            try {
-              const imported = await import('@electron/remote');
-              const moduleData = imported as Record<string, unknown>;
-              remote = (moduleData.default || imported) as ElectronRemote;
-            } catch {
-              const electron = await import('electron');
-              const electronModule = electron as Record<string, unknown>;
-              const defaultExport = electronModule.default as Record<string, unknown> | undefined;
-              remote = (electronModule.remote || defaultExport?.remote) as ElectronRemote;
-            }
+  load(): Category[] {
+    if (!this.data) return [];
+    const categories = JSON.parse(JSON.stringify(this.data.categories)) as Category[];
+    this.rememberBaseline(categories);
+    return categories;
+  }
 
-            if (!remote) throw new Error("Electron remote not available");
+  loadSections(): StoreSections {
+    return copySections(this.data || emptySharedData());
+  }
 
-            const dialog = remote.dialog;
-            const result = await dialog.showSaveDialog({
-              filters: [{ name: 'Fichiers de tâches (JSON)', extensions: ['json'] }]
-            });
+  async save(categories: Category[]): Promise<boolean> {
+    return this.write(data => {
+      applySave(data, categories, this.baseline, this.plugin.newStamp(), this.plugin.settings.tombstoneRetentionDays, this.plugin.app.vault.getName());
+      return true;
+    });
+  }
 
-            if (!result.canceled && result.filePath) {
-              fs.writeFileSync(result.filePath, JSON.stringify({ categories: [] }, null, 2));
-              this.plugin.settings.sharedFilePath = result.filePath;
-              await this.plugin.saveSettings();
-              this.display();
-            }
-          } catch {
-            new Notice(t('ERR_CREATE_FILE_MODAL'));
-            new SharedSetupModal(this.app, this.plugin).open();
-          }
-        }));
+  async mutate(fn: StoreMutation): Promise<boolean> {
+    return this.write(data => applyMutation(data, fn, this.plugin.newStamp(), this.plugin.settings.tombstoneRetentionDays, this.plugin.app.vault.getName()));
+  }
 
-    new Setting(containerEl)
-      .setName(t('SETTING_CONFIRM_DEL'))
-      .setDesc(t('SETTING_CONFIRM_DEL_DESC'))
-      .addToggle(toggle => toggle
-        .setValue(this.plugin.settings.confirmTaskDeletion)
-        .onChange(async (value) => {
-          this.plugin.settings.confirmTaskDeletion = value;
-          await this.plugin.saveSettings();
-        }));
+  watch(onChange: () => void): () => void {
+    const vault = this.plugin.app.vault;
+    const handler = (file: { path: string }) => {
+      if (file.path !== this.filePath) return;
+      void this.reload().then(onChange);
+    };
+    const refs = [vault.on('modify', handler), vault.on('create', handler), vault.on('delete', handler)];
+    return () => refs.forEach(ref => vault.offref(ref));
+  }
 
-    new Setting(containerEl)
-      .setName(t('SETTING_DATE_FORMAT'))
-      .setDesc(t('SETTING_DATE_FORMAT_DESC'))
-      .addDropdown(dropdown => dropdown
-        .addOption('Automatic', t('SETTING_DATE_AUTO'))
-        .addOption('YYYY-MM-DD', t('FMT_YEAR_MONTH_DAY'))
-        .addOption('DD-MM-YYYY', t('FMT_DAY_MONTH_YEAR'))
-        .setValue(this.plugin.settings.dateFormat)
-        .onChange(async (value) => {
-          this.plugin.settings.dateFormat = value as SimpleTasksBlocksSettings['dateFormat'];
-          await this.plugin.saveSettings();
-        }));
+  // Read-modify-write of the current file content. A file that fails validation is never overwritten.
+  async write(update: (data: SharedFileData) => boolean): Promise<boolean> {
+    const vault = this.plugin.app.vault;
+    let written: SharedFileData | null = null;
+    try {
+      const file = vault.getAbstractFileByPath(this.filePath);
+      if (file instanceof TFile) {
+        await vault.process(file, content => {
+          const data = content.trim() ? parseSharedContent(content) : emptySharedData();
+          if (!update(data)) return content;
+          assertWritableSchema(data);
+          written = data;
+          return JSON.stringify(data, null, 2);
+        });
+      } else {
+        const data = emptySharedData();
+        if (!update(data)) return false;
+        const folder = this.filePath.includes('/') ? this.filePath.slice(0, this.filePath.lastIndexOf('/')) : '';
+        if (folder && !vault.getAbstractFileByPath(folder)) await vault.createFolder(folder);
+        await vault.create(this.filePath, JSON.stringify(data, null, 2));
+        written = data;
+      }
+    } catch (e) {
+      new Notice(`${t('ERR_SAVE_VAULT_FILE')}: ${String(e)}`);
+      return false;
+    }
 
-    new Setting(containerEl)
-      .setName(t('SETTING_FUTURE_COUNT'))
-      .setDesc(t('SETTING_FUTURE_COUNT_DESC'))
-      .addDropdown(dropdown => {
-        for (let i = 1; i <= 15; i++) {
-          dropdown.addOption(i.toString(), i.toString());
-        }
-        dropdown
-          .setValue(this.plugin.settings.futureTasksCount.toString())
-          .onChange(async (value) => {
-            this.plugin.settings.futureTasksCount = parseInt(value);
-            await this.plugin.saveSettings();
-          });
-      });
+    if (!written) return false;
+    this.data = written;
+    this.rememberBaseline((written as SharedFileData).categories);
+    this.plugin.refreshViews();
+    return true;
   }
-}
 
-// --- View ---
+  rememberBaseline(categories: Category[]) {
+    this.baseline = indexItems(JSON.parse(JSON.stringify(categories)) as Category[]);
+  }
+}
 
-class TasksView extends ItemView {
-  plugin: SimpleTasksBlocksPlugin;
-  draggedCategoryIndex: number | null = null;
-  icon = "list-checks";
+// Reference backend kept entirely in memory, for trying out or testing code written against TaskStore.
+export class MemoryTaskStore implements TaskStore {
+  categories: Category[];
+  sections: StoreSections;
+  listeners = new Set<() => void>();
 
-  constructor(leaf: WorkspaceLeaf, plugin: SimpleTasksBlocksPlugin) {
-    super(leaf);
-    this.plugin = plugin;
+  constructor(categories: Category[] = [], sections: StoreSections = { trash: [], archive: [] }) {
+    this.categories = categories;
+    this.sections = sections;
   }
 
-  getViewType() {
-    return VIEW_TYPE_TASKS;
+  load(): Category[] {
+    return JSON.parse(JSON.stringify(this.categories)) as Category[];
   }
 
-  getDisplayText() {
-    return t('VIEW_DISPLAY_TEXT');
+  loadSections(): StoreSections {
+    return copySections(this.sections);
   }
 
-  onOpen() {
-    this.refresh();
-    return Promise.resolve();
+  async save(categories: Category[]): Promise<boolean> {
+    this.categories = JSON.parse(JSON.stringify(categories)) as Category[];
+    this.listeners.forEach(listener => listener());
+    return true;
   }
 
-  async onClose() {
-    // Cleanup when view is closed
+  async mutate(fn: StoreMutation): Promise<boolean> {
+    const categories = this.load();
+    const sections = this.loadSections();
+    if (fn(categories, sections) === false) return false;
+    this.sections = sections;
+    await this.save(categories);
+    return true;
   }
 
-  refresh() {
-    const container = this.containerEl.children[1];
-    container.empty();
-    container.addClass('stb-container');
-    const header = container.createEl('div', { cls: 'stb-header' });
-    const grid = header.createEl('div', { cls: 'stb-header-grid' });
-    const leftPart = grid.createEl('div', { cls: 'stb-header-part-left' });
-    const switcher = leftPart.createEl('div', { cls: 'stb-context-switcher' });
-    const localBtn = switcher.createEl('div', { cls: 'stb-context-btn' });
-    localBtn.setAttribute('aria-label', t('LABEL_LOCAL'));
-    setIcon(localBtn, 'database');
+  watch(onChange: () => void): () => void {
+    this.listeners.add(onChange);
+    return () => this.listeners.delete(onChange);
+  }
+}
 
-    if (this.plugin.settings.activeContext === 'local') {
-      localBtn.addClass('is-active');
-    }
+// --- Undo History ---
 
-    localBtn.addEventListener('click', () => {
-      (async () => {
-        if (this.plugin.settings.activeContext !== 'local') {
-          this.plugin.settings.activeContext = 'local';
-          await this.plugin.saveSettings();
-          this.refresh();
-        }
-      })();
-    });
+const HISTORY_LIMIT = 50;
 
-    const sharedBtn = switcher.createEl('div', { cls: 'stb-context-btn' });
-    sharedBtn.setAttribute('aria-label', t('LABEL_SHARED'));
-    const sharedIcon = sharedBtn.createEl('span', { cls: 'stb-btn-icon' });
-    setIcon(sharedIcon, 'share-2');
+interface HistoryChange {
+  context: StorageContext;
+  before: Category[];
+  after: Category[];
+  sectionsBefore: StoreSections;
+  sectionsAfter: StoreSections;
+}
 
-    if (this.plugin.settings.activeContext === 'shared') {
-      sharedBtn.addClass('is-active');
-    }
+// One user action; moving between stores records a change in each of them
+interface HistoryEntry {
+  changes: HistoryChange[];
+}
 
-    sharedBtn.addEventListener('click', () => {
-      (async () => {
-        if (this.plugin.settings.activeContext !== 'shared') {
-          if (!this.plugin.settings.sharedFilePath) {
-            new SharedSetupModal(this.app, this.plugin).open();
-            return;
-          }
-          this.plugin.settings.activeContext = 'shared';
-          await this.plugin.saveSettings();
-          this.refresh();
-        }
-      })();
+// Applies the difference between `from` and `to` onto `current`, item by item, so that undoing one action
+// keeps changes made since then, including those from other vaults.
+function applyDelta(current: Category[], from: Category[], to: Category[]): Category[] {
+  const result = applyListDelta(current, from, to);
+  const fromById = new Map(from.map(c => [c.id, c]));
+  const toById = new Map(to.map(c => [c.id, c]));
+  result.forEach(category => {
+    const source = fromById.get(category.id);
+    const target = toById.get(category.id);
+    if (!source || !target) return;
+    applyFieldDelta(category, source, target);
+    category.tasks = applyListDelta(category.tasks, source.tasks, target.tasks);
+    const sourceTasks = new Map(source.tasks.map(task => [task.id, task]));
+    const targetTasks = new Map(target.tasks.map(task => [task.id, task]));
+    category.tasks.forEach(task => {
+      const sourceTask = sourceTasks.get(task.id);
+      const targetTask = targetTasks.get(task.id);
+      if (!sourceTask || !targetTask) return;
+      applyFieldDelta(task, sourceTask, targetTask);
+      if (!sourceTask.subtasks && !targetTask.subtasks) return;
+      task.subtasks = applyListDelta(task.subtasks || [], sourceTask.subtasks || [], targetTask.subtasks || []);
+      const sourceSubtasks = new Map((sourceTask.subtasks || []).map(subtask => [subtask.id, subtask]));
+      const targetSubtasks = new Map((targetTask.subtasks || []).map(subtask => [subtask.id, subtask]));
+      task.subtasks.forEach(subtask => {
+        const sourceSubtask = sourceSubtasks.get(subtask.id);
+        const targetSubtask = targetSubtasks.get(subtask.id);
+        if (sourceSubtask && targetSubtask) applyFieldDelta(subtask, sourceSubtask, targetSubtask);
+      });
     });
+  });
+  return result;
+}
 
-    const reloadBtn = switcher.createEl('div', { cls: 'stb-context-btn stb-reload-btn stb-sync-icon' });
-    reloadBtn.setAttribute('aria-label', 'Reload');
-    const reloadIcon = reloadBtn.createEl('span', { cls: 'stb-btn-icon' });
-    setIcon(reloadIcon, 'refresh-cw');
-
-    reloadBtn.addEventListener('click', () => {
-      reloadBtn.addClass('is-spinning');
-      setTimeout(() => {
-        this.refresh();
-        reloadBtn.removeClass('is-spinning');
-      }, 800);
-    });
+// Removes, inserts and reorders the items of a list the way `from` became `to`
+function applyListDelta<T extends { id: string }>(current: T[], from: T[], to: T[]): T[] {
+  const fromIds = new Set(from.map(item => item.id));
+  const toIds = new Set(to.map(item => item.id));
+  const result = current.filter(item => !(fromIds.has(item.id) && !toIds.has(item.id)));
+
+  to.forEach((item, index) => {
+    if (fromIds.has(item.id) || result.some(existing => existing.id === item.id)) return;
+    const previousId = index > 0 ? to[index - 1].id : null;
+    const position = previousId ? result.findIndex(existing => existing.id === previousId) + 1 : 0;
+    result.splice(position, 0, JSON.parse(JSON.stringify(item)) as T);
+  });
+
+  const fromOrder = from.filter(item => toIds.has(item.id)).map(item => item.id).join('\n');
+  const toOrder = to.filter(item => fromIds.has(item.id)).map(item => item.id).join('\n');
+  if (fromOrder !== toOrder) {
+    const rank = new Map(to.map((item, index) => [item.id, index]));
+    const positions = result.map((item, index) => rank.has(item.id) ? index : -1).filter(index => index !== -1);
+    const ranked = positions.map(index => result[index]).sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
+    positions.forEach((position, i) => { result[position] = ranked[i]; });
+  }
+  return result;
+}
 
-    leftPart.createEl('span', {
-      text: this.plugin.settings.activeContext === 'shared' ? t('LABEL_SHARED') : t('LABEL_LOCAL'),
-      cls: 'stb-context-label'
-    });
+function applySectionsDelta(current: StoreSections, from: StoreSections, to: StoreSections) {
+  current.trash = applyListDelta(current.trash, from.trash, to.trash);
+  current.archive = applyListDelta(current.archive, from.archive, to.archive);
+}
 
-    grid.createEl('div', { cls: 'stb-header-part-center' });
-    const rightPart = grid.createEl('div', { cls: 'stb-header-part-right' });
-    const addCategoryBtn = rightPart.createEl('button', { text: t('BTN_ADD_CAT'), cls: 'mod-cta' });
-    addCategoryBtn.addEventListener('click', () => {
-      new AddCategoryModal(this.app, (name, firstTask, date) => {
-        void this.plugin.addCategory(name, firstTask, date);
-      }).open();
-    });
+function applyFieldDelta(item: object, from: object, to: object) {
+  const current = item as Record<string, unknown>;
+  const source = from as Record<string, unknown>;
+  const target = to as Record<string, unknown>;
+  new Set([...Object.keys(source), ...Object.keys(target)]).forEach(field => {
+    if (field === 'tasks' || field === 'subtasks' || field === 'updatedAt' || field === 'id') return;
+    if (JSON.stringify(source[field]) === JSON.stringify(target[field])) return;
+    if (target[field] === undefined) {
+      delete current[field];
+    } else {
+      current[field] = JSON.parse(JSON.stringify(target[field]));
+    }
+  });
+}
 
-    const sortGlobalBtn = rightPart.createEl('div', { cls: 'stb-header-icon clickable-icon' });
-    setIcon(sortGlobalBtn, 'arrow-down-a-z');
-    sortGlobalBtn.setAttribute('aria-label', t('TIP_SORT_AZ'));
-    sortGlobalBtn.addEventListener('click', () => {
-      void this.sortAllCategoriesAlphabetically();
-    });
-    const toggleAllBtn = rightPart.createEl('div', { cls: 'stb-header-icon clickable-icon' });
-    setIcon(toggleAllBtn, 'chevrons-up-down');
-    toggleAllBtn.setAttribute('aria-label', t('TIP_TOGGLE_ALL'));
-    toggleAllBtn.addEventListener('click', () => {
-      void this.toggleAllCategories();
-    });
-    const cleanBtn = rightPart.createEl('div', { cls: 'stb-header-icon clickable-icon' });
-    setIcon(cleanBtn, 'eraser');
-    cleanBtn.setAttribute('aria-label', t('TIP_CLEAN_DONE'));
-    cleanBtn.addEventListener('click', () => {
-      new ConfirmModal(this.app, t('CONFIRM_CLEAN_ALL'), () => {
-        void this.plugin.cleanCompletedTasks();
-      }).open();
-    });
-    const categoriesContainer = container.createEl('div', { cls: 'stb-categories-list' });
-    const categories = this.plugin.getCategories();
-    categories.forEach((category, index) => {
-      this.renderCategory(categoriesContainer, category, index);
-    });
+class TaskHistory {
+  plugin: SimpleTasksBlocksPlugin;
+  undoStack: HistoryEntry[] = [];
+  redoStack: HistoryEntry[] = [];
+  // Collects the changes of a grouped action until it completes
+  pending: HistoryEntry | null = null;
+  // What each store last returned from load(), as the "before" side of a later save()
+  loaded = new Map<StorageContext, Category[]>();
+
+  constructor(plugin: SimpleTasksBlocksPlugin) {
+    this.plugin = plugin;
   }
 
-  triggerSyncEffect() {
-    const reloadBtn = this.containerEl.querySelector('.stb-reload-btn');
-    if (reloadBtn) {
-      reloadBtn.addClass('is-syncing');
-      setTimeout(() => reloadBtn.removeClass('is-syncing'), 2000);
+  record(change: HistoryChange) {
+    if (this.pending) {
+      this.pending.changes.push(change);
+      return;
     }
+    this.push({ changes: [change] });
   }
 
-  renderCategory(container: HTMLElement, category: Category, index: number) {
-    const catBlock = container.createEl('div', { cls: 'stb-category-block' });
-    if (category.color) {
-      catBlock.setCssProps({ 'background-color': category.color });
+  push(entry: HistoryEntry) {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  // Records every change made while `fn` runs as one entry. `fn` resolving to false drops those changes,
+  // for actions that rolled themselves back.
+  async group(fn: () => Promise<unknown>): Promise<HistoryEntry | null> {
+    if (this.pending) {
+      const count = this.pending.changes.length;
+      if (await fn() === false) this.pending.changes.splice(count);
+      return this.pending;
+    }
+    const entry: HistoryEntry = { changes: [] };
+    this.pending = entry;
+    try {
+      if (await fn() === false) entry.changes = [];
+    } finally {
+      this.pending = null;
+      if (entry.changes.length > 0) this.push(entry);
+    }
+    return entry.changes.length > 0 ? entry : null;
+  }
+
+  // The entry the last action was recorded in
+  latest(): HistoryEntry | null {
+    return this.pending || this.undoStack[this.undoStack.length - 1] || null;
+  }
+
+  // Undoes `entry`, or the latest action. An entry that fails to apply stays where it was.
+  async undo(entry = this.undoStack[this.undoStack.length - 1]): Promise<boolean> {
+    const index = entry ? this.undoStack.indexOf(entry) : -1;
+    if (index === -1) {
+      new Notice(t('NOTICE_NOTHING_TO_UNDO'));
+      return false;
+    }
+    if (!(await this.apply(entry, 'undo'))) return false;
+    this.undoStack.splice(index, 1);
+    this.redoStack.push(entry);
+    new Notice(t('NOTICE_UNDONE'));
+    return true;
+  }
+
+  async redo(): Promise<boolean> {
+    const entry = this.redoStack[this.redoStack.length - 1];
+    if (!entry) {
+      new Notice(t('NOTICE_NOTHING_TO_REDO'));
+      return false;
+    }
+    if (!(await this.apply(entry, 'redo'))) return false;
+    this.redoStack.pop();
+    this.undoStack.push(entry);
+    new Notice(t('NOTICE_REDONE'));
+    return true;
+  }
+
+  async apply(entry: HistoryEntry, direction: 'undo' | 'redo'): Promise<boolean> {
+    const changes = direction === 'undo' ? [...entry.changes].reverse() : entry.changes;
+    for (const change of changes) {
+      const [from, to] = direction === 'undo' ? [change.after, change.before] : [change.before, change.after];
+      const [sectionsFrom, sectionsTo] = direction === 'undo'
+        ? [change.sectionsAfter, change.sectionsBefore]
+        : [change.sectionsBefore, change.sectionsAfter];
+      const saved = await this.plugin.getBaseStore(change.context).mutate((categories, sections) => {
+        categories.splice(0, categories.length, ...applyDelta(categories, from, to));
+        applySectionsDelta(sections, sectionsFrom, sectionsTo);
+      });
+      if (!saved) return false;
+    }
+    this.plugin.refreshViews();
+    return true;
+  }
+}
+
+// Records every write made through the wrapped store in the undo history
+class HistoryTaskStore implements TaskStore {
+  history: TaskHistory;
+  context: StorageContext;
+  inner: TaskStore;
+
+  constructor(history: TaskHistory, context: StorageContext, inner: TaskStore) {
+    this.history = history;
+    this.context = context;
+    this.inner = inner;
+  }
+
+  load(): Category[] {
+    const categories = this.inner.load();
+    this.history.loaded.set(this.context, JSON.parse(JSON.stringify(categories)) as Category[]);
+    return categories;
+  }
+
+  loadSections(): StoreSections {
+    return this.inner.loadSections();
+  }
+
+  // Reading the inner store again here would reset its merge baseline and turn every stale field into an edit
+  async save(categories: Category[]): Promise<boolean> {
+    const before = this.history.loaded.get(this.context);
+    const after = JSON.parse(JSON.stringify(categories)) as Category[];
+    const sections = this.inner.loadSections();
+    if (!await this.inner.save(categories)) return false;
+    this.history.loaded.set(this.context, after);
+    if (before) this.history.record({ context: this.context, before, after, sectionsBefore: sections, sectionsAfter: sections });
+    return true;
+  }
+
+  async mutate(fn: StoreMutation): Promise<boolean> {
+    let before: Category[] = [];
+    let after: Category[] = [];
+    let sectionsBefore: StoreSections = { trash: [], archive: [] };
+    let sectionsAfter: StoreSections = { trash: [], archive: [] };
+    const saved = await this.inner.mutate((categories, sections) => {
+      before = JSON.parse(JSON.stringify(categories)) as Category[];
+      sectionsBefore = copySections(sections);
+      if (fn(categories, sections) === false) return false;
+      after = JSON.parse(JSON.stringify(categories)) as Category[];
+      sectionsAfter = copySections(sections);
+    });
+    if (saved) this.history.record({ context: this.context, before, after, sectionsBefore, sectionsAfter });
+    return saved;
+  }
+
+  watch(onChange: () => void): () => void {
+    return this.inner.watch(onChange);
+  }
+}
+
+// --- Main Plugin Class ---
+
+export default class SimpleTasksBlocksPlugin extends Plugin {
+  settings: SimpleTasksBlocksSettings;
+  // Shared files that failed validation, by path; writes to each are blocked until the user resolves it
+  sharedRecoveries = new Map<string, SharedRecovery>();
+  sharedWatcher = new SharedFileWatcher();
+  localStore = new LocalSettingsStore(this);
+  sharedStores = new Map<string, SharedFileStore>();
+  vaultStore: VaultFileStore | null = null;
+  history = new TaskHistory(this);
+  // Stop functions of the shared file watchers, keyed by file path
+  sharedWatches = new Map<string, () => void>();
+  watchedVaultPath = '';
+  stopVaultWatch: (() => void) | null = null;
+  // Newest activity entry already reported per file path; entries written before the plugin loaded are never reported
+  activitySeen = new Map<string, number>();
+  loadedAt = Date.now();
+
+  async onload() {
+    await this.loadSettings();
+
+    this.registerView(
+      VIEW_TYPE_TASKS,
+      (leaf) => new TasksView(leaf, this)
+    );
+
+    this.registerView(
+      VIEW_TYPE_TRASH,
+      (leaf) => new TrashView(leaf, this)
+    );
+
+    this.registerView(
+      VIEW_TYPE_ARCHIVE,
+      (leaf) => new ArchiveView(leaf, this)
+    );
+
+    this.registerView(
+      VIEW_TYPE_ACTIVITY,
+      (leaf) => new ActivityView(leaf, this)
+    );
+
+    this.registerHoverLinkSource(VIEW_TYPE_TASKS, {
+      display: this.manifest.name,
+      defaultMod: false
+    });
+
+    this.addRibbonIcon('list-checks', 'Simple tasks blocks', () => {
+      void this.activateView();
+    });
+
+    this.addCommand({
+      id: 'create-new-task-category',
+      name: 'Create new task category',
+      callback: () => {
+        new AddCategoryModal(this.app, (name, firstTask, date) => {
+          void this.addCategory(name, firstTask, date);
+        }).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'undo-task-change',
+      name: t('COMMAND_UNDO'),
+      hotkeys: [{ modifiers: ['Mod', 'Alt'], key: 'z' }],
+      callback: () => {
+        void this.history.undo();
+      }
+    });
+
+    this.addCommand({
+      id: 'redo-task-change',
+      name: t('COMMAND_REDO'),
+      hotkeys: [{ modifiers: ['Mod', 'Alt', 'Shift'], key: 'z' }],
+      callback: () => {
+        void this.history.redo();
+      }
+    });
+
+    this.addCommand({
+      id: 'open-trash',
+      name: t('COMMAND_OPEN_TRASH'),
+      callback: () => {
+        void this.activateSideView(VIEW_TYPE_TRASH);
+      }
+    });
+
+    this.addCommand({
+      id: 'open-archive',
+      name: t('COMMAND_OPEN_ARCHIVE'),
+      callback: () => {
+        void this.activateSideView(VIEW_TYPE_ARCHIVE);
+      }
+    });
+
+    this.addCommand({
+      id: 'open-time-report',
+      name: t('COMMAND_TIME_REPORT'),
+      callback: () => {
+        new TimeReportModal(this.app, this).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'open-activity',
+      name: t('COMMAND_OPEN_ACTIVITY'),
+      callback: () => {
+        void this.activateSideView(VIEW_TYPE_ACTIVITY);
+      }
+    });
+
+    this.addSettingTab(new SimpleTasksBlocksSettingTab(this.app, this));
+    this.setupSharedFileWatchers();
+    this.setupVaultFileWatcher();
+
+    this.app.workspace.onLayoutReady(() => {
+      void this.runScheduledBackups();
+      void this.purgeTrash();
+      void this.checkReminders();
+    });
+    this.registerInterval(window.setInterval(() => {
+      void this.runScheduledBackups();
+      void this.purgeTrash();
+    }, BACKUP_CHECK_INTERVAL_MS));
+    this.registerInterval(window.setInterval(() => {
+      void this.checkReminders();
+    }, REMINDER_CHECK_INTERVAL_MS));
+  }
+
+  // Keeps one watcher per configured shared source. `restart` recreates them all, e.g. after the polling setting changed.
+  setupSharedFileWatchers(restart = false) {
+    if (!DESKTOP_FS) return;
+    const paths = new Set(this.settings.sharedSources.map(s => s.filePath).filter(p => p));
+    this.sharedWatches.forEach((stop, filePath) => {
+      if (restart || !paths.has(filePath)) {
+        stop();
+        this.sharedWatches.delete(filePath);
+      }
+    });
+
+    paths.forEach(filePath => {
+      if (this.sharedWatches.has(filePath)) return;
+      this.sharedWatches.set(filePath, this.getSharedStore(filePath).watch(() => {
+        try {
+          const source = this.settings.sharedSources.find(s => s.filePath === filePath);
+          this.notifyExternalActivity(filePath, source?.name || t('LABEL_SHARED'), readSharedFile(filePath).activity);
+        } catch {
+          // A damaged file is reported when it is loaded
+        }
+        this.refreshActivityViews();
+        if (!this.getViewContexts().some(context => this.getSharedSource(context)?.filePath === filePath)) return;
+        const reloadBtn = document.querySelector('.stb-sync-icon');
+        if (reloadBtn) {
+          reloadBtn.addClass('is-spinning');
+          setTimeout(() => reloadBtn.removeClass('is-spinning'), 800);
+        }
+        this.refreshViews(true);
+      }));
+    });
+  }
+
+  setupVaultFileWatcher() {
+    const store = this.getVaultStore();
+    if (store.filePath === this.watchedVaultPath) return;
+    this.stopVaultWatch?.();
+    this.watchedVaultPath = store.filePath;
+    this.stopVaultWatch = store.watch(() => {
+      this.notifyExternalActivity(store.filePath, t('LABEL_VAULT'), store.data?.activity || []);
+      this.refreshActivityViews();
+      if (this.getViewContexts().includes('vault')) this.refreshViews(true);
+    });
+  }
+
+  // Summarizes the changes other vaults made to a file since the last report
+  notifyExternalActivity(key: string, label: string, activity: ActivityEntry[]) {
+    const seen = this.activitySeen.get(key) ?? this.loadedAt;
+    const entries = activity.filter(entry => entry.at > seen && entry.by !== this.settings.writerId);
+    if (activity.length > 0) this.activitySeen.set(key, Math.max(seen, ...activity.map(entry => entry.at)));
+    if (entries.length === 0) return;
+
+    const vaults = Array.from(new Set(entries.map(entry => entry.vault))).join(', ');
+    const changes = entries.flatMap(entry => entry.changes);
+    const hidden = Math.max(0, changes.length - ACTIVITY_NOTICE_LIMIT) + entries.reduce((sum, entry) => sum + (entry.more || 0), 0);
+    const lines = [t('NOTICE_EXTERNAL_CHANGES', label, vaults), ...changes.slice(0, ACTIVITY_NOTICE_LIMIT).map(describeActivityChange)];
+    if (hidden > 0) lines.push(t('MSG_ACTIVITY_MORE', hidden.toString()));
+    new Notice(lines.join('\n'), 8000);
+  }
+
+  // The activity log of a file-backed store, oldest first. Local tasks have none.
+  getActivity(context: StorageContext): ActivityEntry[] {
+    const source = this.getSharedSource(context);
+    if (source) {
+      try {
+        return readSharedFile(source.filePath).activity;
+      } catch {
+        return [];
+      }
+    }
+    if (context === 'vault') return this.getVaultStore().data?.activity || [];
+    return [];
+  }
+
+  refreshActivityViews() {
+    this.app.workspace.getLeavesOfType(VIEW_TYPE_ACTIVITY).forEach(leaf => {
+      if (leaf.view instanceof ActivityView) leaf.view.refresh();
+    });
+  }
+
+  onunload() {
+    this.stopVaultWatch?.();
+    this.sharedWatcher.unwatchAll();
+  }
+
+  async loadSettings() {
+    const data = migrateData(((await this.loadData()) || {}) as RawData, SETTINGS_MIGRATIONS);
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+    if (this.settings.schemaVersion > SETTINGS_SCHEMA_VERSION) {
+      new Notice(t('ERR_SCHEMA_TOO_NEW', this.settings.schemaVersion.toString(), SETTINGS_SCHEMA_VERSION.toString()));
+    }
+    const repaired = repairDuplicateIds(this.settings.categories) > 0;
+    if (!this.settings.writerId || repaired) {
+      if (!this.settings.writerId) this.settings.writerId = Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+      if (this.settings.schemaVersion <= SETTINGS_SCHEMA_VERSION) await this.saveData(this.settings);
+    }
+  }
+
+  async saveSettings() {
+    if (this.settings.schemaVersion > SETTINGS_SCHEMA_VERSION) {
+      new Notice(t('ERR_SCHEMA_TOO_NEW', this.settings.schemaVersion.toString(), SETTINGS_SCHEMA_VERSION.toString()));
+    } else {
+      await this.saveData(this.settings);
+    }
+    this.setupSharedFileWatchers();
+    this.setupVaultFileWatcher();
+    this.refreshViews();
+  }
+
+  refreshViews(isSync = false) {
+    this.app.workspace.getLeavesOfType(VIEW_TYPE_TASKS).forEach(leaf => {
+      if (leaf.view instanceof TasksView) {
+        leaf.view.refresh();
+        if (isSync) {
+          leaf.view.triggerSyncEffect();
+        }
+      }
+    });
+    this.app.workspace.getLeavesOfType(VIEW_TYPE_TRASH).forEach(leaf => {
+      if (leaf.view instanceof TrashView) leaf.view.refresh();
+    });
+    this.app.workspace.getLeavesOfType(VIEW_TYPE_ARCHIVE).forEach(leaf => {
+      if (leaf.view instanceof ArchiveView) leaf.view.refresh();
+    });
+    this.refreshActivityViews();
+  }
+
+  // Shared files cannot be reached on mobile, and a source may have been removed since it was selected.
+  // Both cases show local tasks.
+  // In the combined view, actions that are not tied to a category (adding one, the create command) go to local tasks.
+  getActiveContext(): StorageContext {
+    const context = this.settings.activeContext;
+    if (context === 'all') return 'local';
+    if (context.startsWith('shared:') && !this.getSharedSource(context)) return 'local';
+    return context;
+  }
+
+  // The stores shown in the view
+  getViewContexts(): StorageContext[] {
+    return this.settings.activeContext === 'all' ? this.getContexts() : [this.getActiveContext()];
+  }
+
+  // The shared source behind `context`, when it is one that can be used on this device
+  getSharedSource(context: StorageContext | 'all' = this.settings.activeContext): SharedSource | undefined {
+    if (!DESKTOP_FS || !context.startsWith('shared:')) return undefined;
+    const id = context.slice('shared:'.length);
+    return this.settings.sharedSources.find(s => s.id === id && s.filePath);
+  }
+
+  // Every store the user can pick on this device, in the order shown in the header
+  getContexts(): StorageContext[] {
+    const contexts: StorageContext[] = ['local', 'vault'];
+    if (DESKTOP_FS) {
+      this.settings.sharedSources.filter(s => s.filePath).forEach(s => contexts.push(sharedContext(s.id)));
+    }
+    return contexts;
+  }
+
+  getContextLabel(context: StorageContext): string {
+    if (context === 'vault') return t('LABEL_VAULT');
+    if (context === 'local') return t('LABEL_LOCAL');
+    return this.getSharedSource(context)?.name || t('LABEL_SHARED');
+  }
+
+  // Writes through this store can be undone
+  getStore(context: StorageContext = this.getActiveContext()): TaskStore {
+    return new HistoryTaskStore(this.history, context, this.getBaseStore(context));
+  }
+
+  getBaseStore(context: StorageContext): TaskStore {
+    const source = this.getSharedSource(context);
+    if (source) {
+      return this.getSharedStore(source.filePath);
+    }
+    if (context === 'vault') {
+      return this.getVaultStore();
+    }
+    return this.localStore;
+  }
+
+  // The store is recreated when the configured path changes; its content arrives asynchronously
+  getVaultStore(): VaultFileStore {
+    const filePath = normalizePath(this.settings.vaultFilePath || DEFAULT_SETTINGS.vaultFilePath);
+    if (this.vaultStore?.filePath !== filePath) {
+      this.vaultStore = new VaultFileStore(this, filePath);
+      void this.vaultStore.reload().then(() => this.refreshViews());
+    }
+    return this.vaultStore;
+  }
+
+  newStamp(): FieldStamp {
+    return { at: Date.now(), by: this.settings.writerId };
+  }
+
+  getSharedStore(filePath: string): SharedFileStore {
+    let store = this.sharedStores.get(filePath);
+    if (!store) {
+      store = new SharedFileStore(this, filePath);
+      this.sharedStores.set(filePath, store);
+    }
+    return store;
+  }
+
+  getCategories(context?: StorageContext): Category[] {
+    return this.getStore(context).load();
+  }
+
+  canWriteShared(filePath: string): boolean {
+    if (!this.sharedRecoveries.has(filePath)) return true;
+    new Notice(t('ERR_SHARED_BLOCKED'));
+    this.openSharedRecovery(filePath);
+    return false;
+  }
+
+  reportSharedError(filePath: string, e: unknown, message: string) {
+    if (!(e instanceof SharedFileCorruptError)) {
+      new Notice(message);
+      return;
+    }
+    if (this.sharedRecoveries.has(filePath)) return;
+
+    const quarantinePath = `${filePath}.corrupt-${moment().format('YYYYMMDD-HHmmss')}`;
+    try {
+      fs.copyFileSync(filePath, quarantinePath);
+    } catch {
+      // The original stays untouched either way since writes are blocked
+    }
+    this.sharedRecoveries.set(filePath, { filePath, quarantinePath, problems: e.problems });
+    this.openSharedRecovery(filePath);
+  }
+
+  openSharedRecovery(filePath: string) {
+    const recovery = this.sharedRecoveries.get(filePath);
+    if (recovery) {
+      new SharedRecoveryModal(this.app, this, recovery).open();
+    }
+  }
+
+  async resolveSharedRecovery(filePath: string, action: 'repair' | 'restore' | 'reinitialize'): Promise<boolean> {
+    const recovery = this.sharedRecoveries.get(filePath);
+    if (!recovery) return true;
+    const { quarantinePath } = recovery;
+
+    try {
+      let data: SharedFileData;
+      if (action === 'repair') {
+        const raw = JSON.parse(fs.readFileSync(quarantinePath, 'utf8')) as RawData;
+        data = parseSharedContent(JSON.stringify(repairSharedData(raw)));
+      } else if (action === 'restore') {
+        const backupPath = `${filePath}.bak`;
+        if (fs.existsSync(backupPath)) {
+          data = parseSharedContent(fs.readFileSync(backupPath, 'utf8'));
+        } else {
+          const latest = (await this.listSnapshots()).find(s => s.snapshot.source === 'shared' && s.snapshot.filePath === filePath);
+          if (!latest) {
+            new Notice(t('ERR_NO_BACKUP'));
+            return false;
+          }
+          data = { ...emptySharedData(), categories: latest.snapshot.categories };
+        }
+      } else {
+        data = emptySharedData();
+      }
+
+      await withSharedFileLock(filePath, () => writeSharedFile(filePath, data));
+    } catch (e) {
+      new Notice(t('ERR_RECOVERY_FAILED', String(e)));
+      return false;
+    }
+
+    this.sharedRecoveries.delete(filePath);
+    this.refreshViews();
+    new Notice(t('NOTICE_SHARED_RECOVERED'));
+    return true;
+  }
+
+  // Resolves to the number of tasks archived, or null when they could not be written. Without `notify`
+  // the caller reports the result.
+  async cleanCompletedTasks(context: StorageContext = this.getActiveContext(), notify = true): Promise<number | null> {
+    await this.createSnapshot(context, 'clean');
+
+    let cleaned = 0;
+    const saved = await this.getStore(context).mutate((categories, sections) => {
+      const archivedAt = Date.now();
+      categories.forEach(c => {
+        c.tasks.filter(t => t.completed).forEach(task => {
+          sections.archive.push({ id: newId(), archivedAt, categoryId: c.id, categoryName: c.name, task });
+        });
+        const originalLength = c.tasks.length;
+        c.tasks = c.tasks.filter(t => !t.completed);
+        cleaned += originalLength - c.tasks.length;
+      });
+      return cleaned > 0;
+    });
+
+    if (notify && saved) {
+      this.showUndoNotice(context === 'local' ? t('NOTICE_CLEANED_LOCAL') : context === 'vault' ? t('NOTICE_CLEANED_VAULT') : t('NOTICE_CLEANED_SHARED'));
+    } else if (notify && cleaned === 0) {
+      new Notice(t('NOTICE_NO_CLEAN'));
+    }
+    return saved || cleaned === 0 ? cleaned : null;
+  }
+
+  // Cleans several stores as one undo step, with a single notice for all of them
+  async cleanCompletedTasksIn(contexts: StorageContext[]) {
+    if (contexts.length === 1) {
+      await this.cleanCompletedTasks(contexts[0]);
+      return;
+    }
+    let total = 0;
+    let failed = false;
+    await this.history.group(async () => {
+      for (const context of contexts) {
+        const cleaned = await this.cleanCompletedTasks(context, false);
+        if (cleaned === null) failed = true;
+        else total += cleaned;
+      }
+    });
+    if (total > 0) {
+      this.showUndoNotice(t('NOTICE_CLEANED_ALL', total.toString()));
+    } else if (!failed) {
+      new Notice(t('NOTICE_NO_CLEAN'));
+    }
+  }
+
+  async updateTask(categoryId: string, taskId: string, changes: Partial<Task>, context?: StorageContext) {
+    await this.getStore(context).mutate(categories => {
+      const task = categories.find(c => c.id === categoryId)?.tasks.find(t => t.id === taskId);
+      if (!task) return false;
+      Object.assign(task, changes);
+    });
+  }
+
+  async addSubtask(categoryId: string, taskId: string, text: string, dueDate: string | undefined, context?: StorageContext) {
+    await this.getStore(context).mutate(categories => {
+      const task = categories.find(c => c.id === categoryId)?.tasks.find(t => t.id === taskId);
+      if (!task) return false;
+      task.subtasks = [...(task.subtasks || []), { id: newId(), text, completed: false, dueDate }];
+    });
+  }
+
+  async updateSubtask(categoryId: string, taskId: string, subtaskId: string, changes: Partial<Subtask>, context?: StorageContext) {
+    await this.getStore(context).mutate(categories => {
+      const subtask = categories.find(c => c.id === categoryId)?.tasks.find(t => t.id === taskId)?.subtasks?.find(s => s.id === subtaskId);
+      if (!subtask) return false;
+      Object.assign(subtask, changes);
+    });
+  }
+
+  // Refused with a notice when the blocker already waits on the task
+  async addBlocker(categoryId: string, taskId: string, blockerId: string, context?: StorageContext) {
+    await this.getStore(context).mutate(categories => {
+      const task = categories.find(c => c.id === categoryId)?.tasks.find(t => t.id === taskId);
+      if (!task || task.blockedBy?.includes(blockerId)) return false;
+      if (wouldCreateCycle(categories, taskId, blockerId)) {
+        new Notice(t('ERR_BLOCKER_CYCLE'));
+        return false;
+      }
+      task.blockedBy = [...(task.blockedBy || []), blockerId];
+    });
+  }
+
+  async removeBlocker(categoryId: string, taskId: string, blockerId: string, context?: StorageContext) {
+    await this.getStore(context).mutate(categories => {
+      const task = categories.find(c => c.id === categoryId)?.tasks.find(t => t.id === taskId);
+      if (!task?.blockedBy?.includes(blockerId)) return false;
+      const remaining = task.blockedBy.filter(id => id !== blockerId);
+      if (remaining.length > 0) task.blockedBy = remaining;
+      else delete task.blockedBy;
+    });
+  }
+
+  async deleteSubtask(categoryId: string, taskId: string, subtaskId: string, context?: StorageContext) {
+    await this.getStore(context).mutate(categories => {
+      const task = categories.find(c => c.id === categoryId)?.tasks.find(t => t.id === taskId);
+      if (!task?.subtasks?.some(s => s.id === subtaskId)) return false;
+      task.subtasks = task.subtasks.filter(s => s.id !== subtaskId);
+    });
+  }
+
+  async updateCategory(categoryId: string, changes: Partial<Omit<Category, 'tasks'>>, context?: StorageContext) {
+    await this.getStore(context).mutate(categories => {
+      const category = categories.find(c => c.id === categoryId);
+      if (!category) return false;
+      Object.assign(category, changes);
+    });
+  }
+
+  async updateTaskDate(categoryId: string, taskId: string, date: string, context?: StorageContext) {
+    await this.updateTask(categoryId, taskId, { dueDate: date }, context);
+  }
+
+  async updateTaskScratchpad(categoryId: string, taskId: string, content: string, context?: StorageContext) {
+    await this.updateTask(categoryId, taskId, { scratchpad: content }, context);
+  }
+
+  async updateCategoryCollapse(categoryId: string, isCollapsed: boolean, context?: StorageContext) {
+    await this.updateCategory(categoryId, { isCollapsed }, context);
+  }
+
+  async updateCategoryColor(categoryId: string, color: string, context?: StorageContext) {
+    await this.updateCategory(categoryId, { color }, context);
+  }
+
+  async addCategory(name: string, firstTaskText: string, dueDate?: string) {
+    const newCategory: Category = {
+      id: newId(),
+      name: name,
+      tasks: [],
+      isCollapsed: false,
+      color: ''
+    };
+
+    if (firstTaskText) {
+      newCategory.tasks.push({
+        id: newId(),
+        text: firstTaskText,
+        completed: false,
+        dueDate: dueDate
+      });
+    }
+
+    await this.getStore().mutate(categories => {
+      categories.push(newCategory);
+    });
+  }
+
+  async deleteCategory(categoryId: string, context: StorageContext = this.getActiveContext()) {
+    await this.createSnapshot(context, 'delete-category');
+
+    const saved = await this.getStore(context).mutate((categories, sections) => {
+      const index = categories.findIndex(c => c.id === categoryId);
+      if (index === -1) return false;
+      const [category] = categories.splice(index, 1);
+      removeBlockerReferences(categories, category.tasks.map(task => task.id));
+      sections.trash.push({
+        id: newId(),
+        deletedAt: Date.now(),
+        categoryId: category.id,
+        categoryName: category.name,
+        position: index,
+        category
+      });
+    });
+    if (saved) this.showUndoNotice(t('NOTICE_CATEGORY_DELETED'));
+  }
+
+  async duplicateTask(categoryId: string, taskId: string, context?: StorageContext) {
+    await this.getStore(context).mutate(categories => {
+      const category = categories.find(c => c.id === categoryId);
+      const taskIndex = category ? category.tasks.findIndex(t => t.id === taskId) : -1;
+      if (!category || taskIndex === -1) return false;
+
+      const newTask: Task = {
+        ...JSON.parse(JSON.stringify(category.tasks[taskIndex])) as Task,
+        id: newId(),
+      };
+      newTask.subtasks?.forEach(subtask => { subtask.id = newId(); });
+      // Recorded time stays with the original
+      delete newTask.timeEntries;
+      category.tasks.splice(taskIndex + 1, 0, newTask);
+    });
+  }
+
+  // Sends a whole category, or one task when `taskId` is given, to another store. Tasks land in the target
+  // category with the same id or name, created if needed. A copy carries every task field. A move is only
+  // kept when the removal from the source succeeds too; otherwise the copy is taken back out of the target
+  // and nothing is left in the undo history.
+  async transferItem(mode: 'move' | 'copy', source: StorageContext, target: StorageContext, categoryId: string, taskId?: string): Promise<boolean> {
+    let transferred = false;
+    await this.history.group(async () => {
+      transferred = await this.transferItemNow(mode, source, target, categoryId, taskId);
+      return transferred;
+    });
+    if (transferred) this.showUndoNotice(t(mode === 'move' ? 'NOTICE_MOVED_TO' : 'NOTICE_COPIED_TO', this.getContextLabel(target)));
+    return transferred;
+  }
+
+  async transferItemNow(mode: 'move' | 'copy', source: StorageContext, target: StorageContext, categoryId: string, taskId?: string): Promise<boolean> {
+    if (source === target) return false;
+    const sourceCategory = this.getStore(source).load().find(c => c.id === categoryId);
+    const sourceTask = taskId ? sourceCategory?.tasks.find(task => task.id === taskId) : undefined;
+    if (!sourceCategory || (taskId && !sourceTask)) return false;
+
+    const prepare = <T extends Stamped & { id: string }>(item: T): T => {
+      const clone = JSON.parse(JSON.stringify(item)) as T;
+      delete clone.updatedAt;
+      if (mode === 'copy') clone.id = newId();
+      return clone;
+    };
+    const category = prepare(sourceCategory);
+    category.tasks = (sourceTask ? [sourceTask] : sourceCategory.tasks).map(task => {
+      const clone = prepare(task);
+      if (clone.subtasks) clone.subtasks = clone.subtasks.map(subtask => prepare(subtask));
+      return clone;
+    });
+
+    const targetStore = this.getStore(target);
+    let createdCategoryId: string | null = null;
+    const added = await targetStore.mutate(categories => {
+      if (!taskId) {
+        if (categories.some(c => c.id === category.id)) category.id = newId();
+        categories.push(category);
+        return;
+      }
+      let targetCategory = categories.find(c => c.id === categoryId) || categories.find(c => c.name === sourceCategory.name);
+      if (!targetCategory) {
+        targetCategory = { ...category, id: categories.some(c => c.id === category.id) ? newId() : category.id, tasks: [] };
+        createdCategoryId = targetCategory.id;
+        categories.push(targetCategory);
+      }
+      category.tasks.forEach(task => {
+        if (categories.some(c => c.tasks.some(existing => existing.id === task.id))) task.id = newId();
+      });
+      targetCategory.tasks.push(...category.tasks);
+    });
+    if (!added) {
+      new Notice(t('ERR_TRANSFER', this.getContextLabel(target)));
+      return false;
+    }
+
+    if (mode === 'move') {
+      const removed = await this.getStore(source).mutate(categories => {
+        const index = categories.findIndex(c => c.id === categoryId);
+        if (index === -1) return false;
+        if (!taskId) {
+          categories.splice(index, 1);
+        } else {
+          categories[index].tasks = categories[index].tasks.filter(task => task.id !== taskId);
+        }
+      });
+      if (!removed) {
+        const addedIds = new Set(category.tasks.map(task => task.id));
+        await targetStore.mutate(categories => {
+          if (!taskId || createdCategoryId) {
+            const removedId = taskId ? createdCategoryId : category.id;
+            categories.splice(0, categories.length, ...categories.filter(c => c.id !== removedId));
+          } else {
+            categories.forEach(c => { c.tasks = c.tasks.filter(task => !addedIds.has(task.id)); });
+          }
+        });
+        new Notice(t('ERR_TRANSFER', this.getContextLabel(target)));
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  async deleteTask(categoryId: string, taskId: string, context?: StorageContext) {
+    const saved = await this.getStore(context).mutate((categories, sections) => {
+      const category = categories.find(c => c.id === categoryId);
+      const index = category ? category.tasks.findIndex(t => t.id === taskId) : -1;
+      if (!category || index === -1) return false;
+      const [task] = category.tasks.splice(index, 1);
+      removeBlockerReferences(categories, [task.id]);
+      sections.trash.push({
+        id: newId(),
+        deletedAt: Date.now(),
+        categoryId: category.id,
+        categoryName: category.name,
+        position: index,
+        task
+      });
+    });
+    if (saved) this.showUndoNotice(t('NOTICE_TASK_DELETED'));
+  }
+
+  // Puts a trashed item back at its old position. A task whose category is gone gets a new category of the same name.
+  async restoreFromTrash(context: StorageContext, entryId: string) {
+    const saved = await this.getStore(context).mutate((categories, sections) => {
+      const entry = sections.trash.find(e => e.id === entryId);
+      if (!entry) return false;
+      sections.trash = sections.trash.filter(e => e.id !== entryId);
+
+      if (entry.category) {
+        const category = categories.some(c => c.id === entry.category?.id)
+          ? { ...entry.category, id: newId() }
+          : entry.category;
+        categories.splice(Math.min(entry.position, categories.length), 0, category);
+      } else if (entry.task) {
+        let category = categories.find(c => c.id === entry.categoryId);
+        if (!category) {
+          category = { id: entry.categoryId, name: entry.categoryName, tasks: [], isCollapsed: false, color: '' };
+          categories.push(category);
+        }
+        const task = categories.some(c => c.tasks.some(existing => existing.id === entry.task?.id))
+          ? { ...entry.task, id: newId() }
+          : entry.task;
+        category.tasks.splice(Math.min(entry.position, category.tasks.length), 0, task);
+      }
+    });
+    if (saved) this.showUndoNotice(t('NOTICE_TRASH_RESTORED'));
+  }
+
+  // Removes trash entries for good; all of them when `entryId` is not given
+  async deleteFromTrash(context: StorageContext, entryId?: string) {
+    await this.getStore(context).mutate((categories, sections) => {
+      const remaining = entryId ? sections.trash.filter(e => e.id !== entryId) : [];
+      if (remaining.length === sections.trash.length) return false;
+      sections.trash = remaining;
+    });
+  }
+
+  // Puts an archived task back into its category, or into a new one of the same name when it is gone
+  async unarchiveTask(context: StorageContext, entryId: string) {
+    const saved = await this.getStore(context).mutate((categories, sections) => {
+      const entry = sections.archive.find(e => e.id === entryId);
+      if (!entry) return false;
+      sections.archive = sections.archive.filter(e => e.id !== entryId);
+
+      let category = categories.find(c => c.id === entry.categoryId);
+      if (!category) {
+        category = { id: entry.categoryId, name: entry.categoryName, tasks: [], isCollapsed: false, color: '' };
+        categories.push(category);
+      }
+      const task = categories.some(c => c.tasks.some(existing => existing.id === entry.task.id))
+        ? { ...entry.task, id: newId() }
+        : entry.task;
+      category.tasks.push(task);
+    });
+    if (saved) this.showUndoNotice(t('NOTICE_UNARCHIVED'));
+  }
+
+  // Drops trash entries older than the retention setting; stores with nothing to purge are not written
+  async purgeTrash() {
+    if (this.settings.trashRetentionDays <= 0) return;
+    const cutoff = Date.now() - this.settings.trashRetentionDays * 24 * 60 * 60 * 1000;
+    for (const context of this.getContexts()) {
+      const store = this.getBaseStore(context);
+      if (!store.loadSections().trash.some(e => e.deletedAt < cutoff)) continue;
+      await store.mutate((categories, sections) => {
+        sections.trash = sections.trash.filter(e => e.deletedAt >= cutoff);
+      });
+    }
+  }
+
+  // Notice with an Undo button for the action that was just recorded
+  showUndoNotice(message: string) {
+    const entry = this.history.latest();
+    const fragment = createFragment(el => {
+      el.createSpan({ text: message });
+      if (!entry) return;
+      const undoBtn = el.createEl('button', { text: t('BTN_UNDO'), cls: 'stb-notice-undo' });
+      undoBtn.addEventListener('click', () => {
+        notice.hide();
+        void this.history.undo(entry);
+      });
+    });
+    const notice = new Notice(fragment, 8000);
+  }
+
+  // Shows every reminder whose time has come, including those missed while Obsidian was closed, once per device
+  async checkReminders() {
+    const now = Date.now();
+    const fired = this.settings.firedReminders;
+    const snoozed = this.settings.snoozedReminders;
+    let changed = false;
+    // Several reminders of one task coming due together show a single notice
+    const shown = new Set<string>();
+
+    for (const context of this.getContexts()) {
+      const source = this.getSharedSource(context);
+      let categories: Category[];
+      try {
+        // A shared file is read directly: its store would report an unreachable file on every check
+        categories = source ? readSharedFile(source.filePath).categories : this.getBaseStore(context).load();
+      } catch {
+        continue;
+      }
+      categories.forEach(category => category.tasks.forEach(task => {
+        const due = getDueMoment(task);
+        if (task.completed || due === undefined) return;
+        (task.reminders || []).forEach(offset => {
+          const at = due - offset * 60 * 1000;
+          const key = reminderKey(task.id, at);
+          // A snoozed reminder comes back when its snooze ends, however old the reminder itself is
+          if (key in snoozed) {
+            if (snoozed[key] > now) return;
+            delete snoozed[key];
+          } else if (at > now || at < now - REMINDER_CATCH_UP_MS || key in fired) {
+            return;
+          }
+          fired[key] = at;
+          changed = true;
+          if (!shown.has(task.id)) this.showReminder(context, task, key);
+          shown.add(task.id);
+        });
+      }));
+    }
+
+    Object.keys(fired).forEach(key => {
+      if (fired[key] < now - REMINDER_CATCH_UP_MS) {
+        delete fired[key];
+        changed = true;
+      }
+    });
+    // Snoozes of tasks that were completed or deleted meanwhile
+    Object.keys(snoozed).forEach(key => {
+      if (snoozed[key] < now - REMINDER_CATCH_UP_MS) {
+        delete snoozed[key];
+        changed = true;
+      }
+    });
+    if (changed && this.settings.schemaVersion <= SETTINGS_SCHEMA_VERSION) await this.saveData(this.settings);
+  }
+
+  // An Obsidian notice with snooze buttons, and a system notification when enabled
+  showReminder(context: StorageContext, task: Task, key: string) {
+    const due = window.moment(getDueMoment(task));
+    const when = task.dueTime ? due.calendar() : due.format('LL');
+    const message = t('NOTICE_REMINDER', task.text, when);
+    const fragment = createFragment(el => {
+      el.createDiv({ text: message });
+      el.createDiv({ text: this.getContextLabel(context), cls: 'stb-reminder-source' });
+      const actions = el.createDiv({ cls: 'stb-reminder-actions' });
+      ([[10, 'BTN_SNOOZE_10'], [60, 'BTN_SNOOZE_HOUR'], [24 * 60, 'BTN_SNOOZE_DAY']] as [number, keyof typeof MESSAGES['en']][]).forEach(([minutes, label]) => {
+        const snoozeBtn = actions.createEl('button', { text: t(label) });
+        snoozeBtn.addEventListener('click', (e) => {
+          e.stopPropagation();
+          notice.hide();
+          void this.snoozeReminder(key, minutes);
+        });
+      });
+    });
+    const notice = new Notice(fragment, 0);
+
+    if (this.settings.systemNotifications && typeof Notification !== 'undefined' && Notification.permission !== 'denied') {
+      const notify = () => {
+        const notification = new Notification(t('VIEW_DISPLAY_TEXT'), { body: message });
+        notification.onclick = () => {
+          window.focus();
+          void this.activateView();
+        };
+      };
+      if (Notification.permission === 'granted') notify();
+      else void Notification.requestPermission().then(permission => { if (permission === 'granted') notify(); });
+    }
+  }
+
+  async snoozeReminder(key: string, minutes: number) {
+    this.settings.snoozedReminders[key] = Date.now() + minutes * 60 * 1000;
+    if (this.settings.schemaVersion <= SETTINGS_SCHEMA_VERSION) await this.saveData(this.settings);
+  }
+
+  // Starts a timer on the task, unless one already runs there, whichever vault started it. Timers this vault
+  // runs on any other task, in any store, are stopped first.
+  async startTimer(context: StorageContext, categoryId: string, taskId: string) {
+    await this.history.group(async () => {
+      for (const other of this.getContexts()) {
+        if (!this.getCategories(other).some(c => c.tasks.some(task => isTiming(task, this.settings.writerId)))) continue;
+        await this.stopTimers(other);
+      }
+      await this.getStore(context).mutate(categories => {
+        const task = categories.find(c => c.id === categoryId)?.tasks.find(t => t.id === taskId);
+        if (!task || isTiming(task)) return false;
+        task.timeEntries = [...(task.timeEntries || []), { id: newId(), start: Date.now(), by: this.settings.writerId }];
+      });
+    });
+  }
+
+  // Stops the timer of one task, whichever vault started it. Without `taskId`, stops the timers this vault
+  // runs in the store and leaves those started from other vaults running.
+  async stopTimers(context: StorageContext, taskId?: string) {
+    const writerId = taskId ? undefined : this.settings.writerId;
+    await this.getStore(context).mutate(categories => {
+      const now = Date.now();
+      let stopped = false;
+      categories.forEach(c => c.tasks.forEach(task => {
+        if ((taskId && task.id !== taskId) || !isTiming(task, writerId)) return;
+        endTimeEntries(task, now, writerId);
+        stopped = true;
+      }));
+      return stopped;
+    });
+  }
+
+  getBackupFolder(): string {
+    return normalizePath(`${this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/backups`);
+  }
+
+  async listSnapshots(): Promise<{ path: string; snapshot: Snapshot }[]> {
+    const adapter = this.app.vault.adapter;
+    const folder = this.getBackupFolder();
+    if (!(await adapter.exists(folder))) return [];
+
+    const listing = await adapter.list(folder);
+    const snapshots: { path: string; snapshot: Snapshot }[] = [];
+    for (const path of listing.files.filter(f => f.endsWith('.json'))) {
+      try {
+        snapshots.push({ path, snapshot: JSON.parse(await adapter.read(path)) as Snapshot });
+      } catch {
+        // Skip unreadable snapshot
+      }
+    }
+    return snapshots.sort((a, b) => b.snapshot.createdAt - a.snapshot.createdAt);
+  }
+
+  // Snapshots record the kind of storage plus the file, so they stay valid when a source is renamed
+  getSnapshotTarget(context: StorageContext): { source: Snapshot['source']; filePath?: string } {
+    if (context === 'local') return { source: 'local' };
+    if (context === 'vault') return { source: 'vault', filePath: this.getVaultStore().filePath };
+    return { source: 'shared', filePath: this.getSharedSource(context)?.filePath };
+  }
+
+  async createSnapshot(context: StorageContext, reason: Snapshot['reason']) {
+    const { source, filePath } = this.getSnapshotTarget(context);
+    if (source === 'shared' && !filePath) return;
+    if (source === 'vault' && !this.getVaultStore().data) return;
+
+    try {
+      const categories = source === 'shared' && filePath ? readSharedFile(filePath).categories : this.getStore(context).load();
+      const existing = (await this.listSnapshots()).filter(s => s.snapshot.source === source && s.snapshot.filePath === filePath);
+      if (existing.length > 0 && JSON.stringify(existing[0].snapshot.categories) === JSON.stringify(categories)) return;
+
+      const adapter = this.app.vault.adapter;
+      const folder = this.getBackupFolder();
+      if (!(await adapter.exists(folder))) await adapter.mkdir(folder);
+
+      const snapshot: Snapshot = { createdAt: Date.now(), source, filePath, reason, categories };
+      const name = `${source}-${moment(snapshot.createdAt).format('YYYYMMDD-HHmmss-SSS')}.json`;
+      await adapter.write(normalizePath(`${folder}/${name}`), JSON.stringify(snapshot, null, 2));
+
+      const stale = existing.slice(Math.max(this.settings.backupRetentionCount - 1, 0));
+      for (const old of stale) {
+        await adapter.remove(old.path);
+      }
+    } catch {
+      // A failed backup must never block the operation it precedes
+    }
+  }
+
+  async runScheduledBackups() {
+    if (this.settings.backupIntervalHours <= 0) return;
+    const snapshots = await this.listSnapshots();
+    const intervalMs = this.settings.backupIntervalHours * 60 * 60 * 1000;
+
+    const contexts: StorageContext[] = ['local', 'vault', ...this.settings.sharedSources.map(s => sharedContext(s.id))];
+    for (const context of contexts) {
+      const { source, filePath } = this.getSnapshotTarget(context);
+      const latest = snapshots.find(s => s.snapshot.source === source && s.snapshot.filePath === filePath);
+      if (!latest || Date.now() - latest.snapshot.createdAt >= intervalMs) {
+        await this.createSnapshot(context, 'scheduled');
+      }
+    }
+  }
+
+  // Restores the whole snapshot, or only `categoryId` when given. The current state is snapshotted first.
+  async restoreSnapshot(snapshot: Snapshot, categoryId?: string) {
+    const restored = categoryId ? snapshot.categories.filter(c => c.id === categoryId) : snapshot.categories;
+
+    const apply = (current: Category[]): Category[] => {
+      if (!categoryId) return JSON.parse(JSON.stringify(restored)) as Category[];
+      const copy = JSON.parse(JSON.stringify(restored[0])) as Category;
+      const index = current.findIndex(c => c.id === categoryId);
+      if (index === -1) return [...current, copy];
+      const result = [...current];
+      result[index] = copy;
+      return result;
+    };
+
+    let context: StorageContext = snapshot.source === 'shared' ? 'local' : snapshot.source;
+    if (snapshot.source === 'shared') {
+      const source = this.settings.sharedSources.find(s => s.filePath === snapshot.filePath);
+      if (!source || !DESKTOP_FS) {
+        new Notice(t('ERR_RESTORE_BACKUP', snapshot.filePath || ''));
+        return;
+      }
+      context = sharedContext(source.id);
+    }
+    await this.createSnapshot(context, 'restore');
+    const saved = await this.getStore(context).mutate(categories => {
+      categories.splice(0, categories.length, ...apply(categories));
+    });
+    if (!saved) return;
+    this.showUndoNotice(t('NOTICE_BACKUP_RESTORED'));
+  }
+
+  // Opens the trash or archive view in the right sidebar
+  async activateSideView(viewType: string) {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(viewType)[0] || null;
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      await leaf.setViewState({ type: viewType, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+  }
+
+  async activateView() {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = null;
+    const leaves = workspace.getLeavesOfType(VIEW_TYPE_TASKS);
+
+    if (leaves.length > 0) {
+      leaf = leaves[0];
+    } else {
+      leaf = workspace.getRightLeaf(false);
+      await leaf.setViewState({ type: VIEW_TYPE_TASKS, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+  }
+}
+
+// --- Settings Tab ---
+
+class SimpleTasksBlocksSettingTab extends PluginSettingTab {
+  plugin: SimpleTasksBlocksPlugin;
+
+  constructor(app: App, plugin: SimpleTasksBlocksPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    new Setting(containerEl)
+      .setName(t('SETTING_VAULT_PATH'))
+      .setDesc(t('SETTING_VAULT_PATH_DESC'))
+      .addText(text => text
+        .setValue(this.plugin.settings.vaultFilePath)
+        .setPlaceholder(DEFAULT_SETTINGS.vaultFilePath)
+        .onChange(async (value) => {
+          this.plugin.settings.vaultFilePath = value.trim() || DEFAULT_SETTINGS.vaultFilePath;
+          await this.plugin.saveSettings();
+        }));
+
+    if (!DESKTOP_FS) {
+      new Setting(containerEl)
+        .setName(t('SETTING_PATH_NAME'))
+        .setDesc(t('MSG_SHARED_DESKTOP_ONLY'));
+      this.displayGeneralSettings(containerEl);
+      return;
+    }
+
+    new Setting(containerEl).setName(t('SETTING_SOURCES_HEADING')).setDesc(t('SETTING_SOURCES_DESC')).setHeading();
+
+    this.plugin.settings.sharedSources.forEach(source => {
+      new Setting(containerEl)
+        .setDesc(source.filePath || t('SETTING_PATH_PLACEHOLDER'))
+        .addText(text => text
+          .setValue(source.name)
+          .setPlaceholder(t('FIELD_SOURCE_NAME'))
+          .onChange(async (value) => {
+            source.name = value.trim() || sourceNameFromPath(source.filePath);
+            await this.plugin.saveSettings();
+          }))
+        .addButton(btn => btn
+          .setButtonText(t('BTN_BROWSE'))
+          .setTooltip(t('TIP_SELECT_FILE'))
+          .onClick(() => {
+            new SharedSetupModal(this.app, this.plugin, source, () => this.display()).open();
+          }))
+        .addExtraButton(btn => btn
+          .setIcon('trash')
+          .setTooltip(t('TIP_REMOVE_SOURCE'))
+          .onClick(() => {
+            new ConfirmModal(this.app, t('CONFIRM_REMOVE_SOURCE', source.name), () => {
+              void (async () => {
+                this.plugin.settings.sharedSources = this.plugin.settings.sharedSources.filter(s => s.id !== source.id);
+                if (this.plugin.settings.activeContext === sharedContext(source.id)) {
+                  this.plugin.settings.activeContext = 'local';
+                }
+                await this.plugin.saveSettings();
+                this.display();
+              })();
+            }).open();
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton(btn => btn
+        .setButtonText(t('BTN_ADD_SOURCE'))
+        .onClick(() => {
+          new SharedSetupModal(this.app, this.plugin, null, () => this.display()).open();
+        }));
+
+    new Setting(containerEl)
+      .setName(t('SETTING_POLL_SHARED'))
+      .setDesc(t('SETTING_POLL_SHARED_DESC'))
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.pollSharedFile)
+        .onChange(async (value) => {
+          this.plugin.settings.pollSharedFile = value;
+          await this.plugin.saveSettings();
+          this.plugin.setupSharedFileWatchers(true);
+        }));
+
+    this.displayGeneralSettings(containerEl);
+  }
+
+  displayGeneralSettings(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName(t('SETTING_CONFIRM_DEL'))
+      .setDesc(t('SETTING_CONFIRM_DEL_DESC'))
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.confirmTaskDeletion)
+        .onChange(async (value) => {
+          this.plugin.settings.confirmTaskDeletion = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName(t('SETTING_AUTO_COMPLETE_PARENT'))
+      .setDesc(t('SETTING_AUTO_COMPLETE_PARENT_DESC'))
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.autoCompleteParent)
+        .onChange(async (value) => {
+          this.plugin.settings.autoCompleteParent = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName(t('SETTING_DATE_FORMAT'))
+      .setDesc(t('SETTING_DATE_FORMAT_DESC'))
+      .addDropdown(dropdown => dropdown
+        .addOption('Automatic', t('SETTING_DATE_AUTO'))
+        .addOption('YYYY-MM-DD', t('FMT_YEAR_MONTH_DAY'))
+        .addOption('DD-MM-YYYY', t('FMT_DAY_MONTH_YEAR'))
+        .setValue(this.plugin.settings.dateFormat)
+        .onChange(async (value) => {
+          this.plugin.settings.dateFormat = value as SimpleTasksBlocksSettings['dateFormat'];
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName(t('SETTING_FUTURE_COUNT'))
+      .setDesc(t('SETTING_FUTURE_COUNT_DESC'))
+      .addDropdown(dropdown => {
+        for (let i = 1; i <= 15; i++) {
+          dropdown.addOption(i.toString(), i.toString());
+        }
+        dropdown
+          .setValue(this.plugin.settings.futureTasksCount.toString())
+          .onChange(async (value) => {
+            this.plugin.settings.futureTasksCount = parseInt(value);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName(t('SETTING_TOMBSTONE_RETENTION'))
+      .setDesc(t('SETTING_TOMBSTONE_RETENTION_DESC'))
+      .addDropdown(dropdown => {
+        [7, 30, 90, 365].forEach(days => {
+          dropdown.addOption(days.toString(), t('VAL_DAYS', days.toString()));
+        });
+        dropdown
+          .setValue(this.plugin.settings.tombstoneRetentionDays.toString())
+          .onChange(async (value) => {
+            this.plugin.settings.tombstoneRetentionDays = parseInt(value);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName(t('SETTING_TRASH_RETENTION'))
+      .setDesc(t('SETTING_TRASH_RETENTION_DESC'))
+      .addDropdown(dropdown => {
+        dropdown.addOption('0', t('VAL_NEVER'));
+        [7, 30, 90, 365].forEach(days => {
+          dropdown.addOption(days.toString(), t('VAL_DAYS', days.toString()));
+        });
+        dropdown
+          .setValue(this.plugin.settings.trashRetentionDays.toString())
+          .onChange(async (value) => {
+            this.plugin.settings.trashRetentionDays = parseInt(value);
+            await this.plugin.saveSettings();
+            void this.plugin.purgeTrash();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName(t('SETTING_SYSTEM_NOTIFICATIONS'))
+      .setDesc(t('SETTING_SYSTEM_NOTIFICATIONS_DESC'))
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.systemNotifications)
+        .onChange(async (value) => {
+          this.plugin.settings.systemNotifications = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl).setName(t('SETTING_BACKUPS_HEADING')).setHeading();
+
+    new Setting(containerEl)
+      .setName(t('SETTING_BACKUP_INTERVAL'))
+      .setDesc(t('SETTING_BACKUP_INTERVAL_DESC'))
+      .addDropdown(dropdown => {
+        dropdown.addOption('0', t('VAL_NEVER'));
+        [1, 6, 12, 24, 168].forEach(hours => {
+          dropdown.addOption(hours.toString(), t('VAL_HOURS', hours.toString()));
+        });
+        dropdown
+          .setValue(this.plugin.settings.backupIntervalHours.toString())
+          .onChange(async (value) => {
+            this.plugin.settings.backupIntervalHours = parseInt(value);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName(t('SETTING_BACKUP_RETENTION'))
+      .setDesc(t('SETTING_BACKUP_RETENTION_DESC'))
+      .addDropdown(dropdown => {
+        [3, 5, 10, 20, 50].forEach(count => {
+          dropdown.addOption(count.toString(), count.toString());
+        });
+        dropdown
+          .setValue(this.plugin.settings.backupRetentionCount.toString())
+          .onChange(async (value) => {
+            this.plugin.settings.backupRetentionCount = parseInt(value);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    const backupList = containerEl.createDiv({ cls: 'stb-backup-list' });
+    void this.displayBackups(backupList);
+  }
+
+  getSnapshotLabel(snapshot: Snapshot): string {
+    if (snapshot.source !== 'shared') return this.plugin.getContextLabel(snapshot.source);
+    const source = this.plugin.settings.sharedSources.find(s => s.filePath === snapshot.filePath);
+    return source?.name || (snapshot.filePath ? sourceNameFromPath(snapshot.filePath) : t('LABEL_SHARED'));
+  }
+
+  async displayBackups(container: HTMLElement) {
+    const snapshots = await this.plugin.listSnapshots();
+    container.empty();
+    if (snapshots.length === 0) {
+      container.createEl('p', { text: t('MSG_NO_BACKUPS'), cls: 'setting-item-description' });
+      return;
+    }
+
+    snapshots.forEach(({ snapshot }) => {
+      const taskCount = snapshot.categories.reduce((sum, c) => sum + c.tasks.length, 0);
+      new Setting(container)
+        .setName(`${moment(snapshot.createdAt).format('LLL')} - ${this.getSnapshotLabel(snapshot)}`)
+        .setDesc(t('MSG_BACKUP_SUMMARY', snapshot.categories.length.toString(), taskCount.toString(), t(BACKUP_REASON_KEYS[snapshot.reason])))
+        .addButton(btn => btn
+          .setButtonText(t('BTN_PREVIEW'))
+          .onClick(() => {
+            new SnapshotPreviewModal(this.app, this.plugin, snapshot, () => void this.displayBackups(container)).open();
+          }));
+    });
+  }
+}
+
+// --- View ---
+
+class TasksView extends ItemView {
+  plugin: SimpleTasksBlocksPlugin;
+  draggedCategoryIndex: number | null = null;
+  draggedCategoryContext: StorageContext | null = null;
+  // Only tasks with this tag are shown; empty shows all
+  tagFilter = '';
+  // Totals of running timers, updated while the view is open
+  runningTimers: { el: HTMLElement; task: Task }[] = [];
+  icon = "list-checks";
+
+  constructor(leaf: WorkspaceLeaf, plugin: SimpleTasksBlocksPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return VIEW_TYPE_TASKS;
+  }
+
+  getDisplayText() {
+    return t('VIEW_DISPLAY_TEXT');
+  }
+
+  onOpen() {
+    this.refresh();
+    this.registerInterval(window.setInterval(() => {
+      this.runningTimers.forEach(({ el, task }) => el.setText(formatDuration(getTrackedTime(task, Date.now()))));
+    }, 30 * 1000));
+    return Promise.resolve();
+  }
+
+  async onClose() {
+    // Cleanup when view is closed
+  }
+
+  refresh() {
+    const container = this.containerEl.children[1];
+    container.empty();
+    container.addClass('stb-container');
+    this.runningTimers = [];
+    const header = container.createEl('div', { cls: 'stb-header' });
+    const grid = header.createEl('div', { cls: 'stb-header-grid' });
+    const leftPart = grid.createEl('div', { cls: 'stb-header-part-left' });
+    const switcher = leftPart.createEl('div', { cls: 'stb-context-switcher' });
+    const activeContext = this.plugin.getActiveContext();
+    const sourceSelect = switcher.createEl('select', { cls: 'dropdown stb-source-select' });
+    sourceSelect.setAttribute('aria-label', t('LABEL_SOURCE'));
+    sourceSelect.createEl('option', { value: 'all', text: t('LABEL_ALL_SOURCES') });
+    this.plugin.getContexts().forEach(context => {
+      sourceSelect.createEl('option', { value: context, text: this.plugin.getContextLabel(context) });
+    });
+    if (DESKTOP_FS) {
+      sourceSelect.createEl('option', { value: '', text: t('BTN_ADD_SOURCE') });
+    }
+    const selected = this.plugin.settings.activeContext === 'all' ? 'all' : activeContext;
+    sourceSelect.value = selected;
+
+    sourceSelect.addEventListener('change', () => {
+      (async () => {
+        const value = sourceSelect.value as StorageContext | 'all' | '';
+        if (!value) {
+          sourceSelect.value = selected;
+          new SharedSetupModal(this.app, this.plugin).open();
+          return;
+        }
+        if (this.plugin.settings.activeContext !== value) {
+          this.plugin.settings.activeContext = value;
+          await this.plugin.saveSettings();
+          this.refresh();
+        }
+      })();
+    });
+
+    const reloadBtn = switcher.createEl('div', { cls: 'stb-context-btn stb-reload-btn stb-sync-icon' });
+    reloadBtn.setAttribute('aria-label', 'Reload');
+    const reloadIcon = reloadBtn.createEl('span', { cls: 'stb-btn-icon' });
+    setIcon(reloadIcon, 'refresh-cw');
+
+    reloadBtn.addEventListener('click', () => {
+      reloadBtn.addClass('is-spinning');
+      if (this.plugin.getViewContexts().includes('vault')) void this.plugin.getVaultStore().reload();
+      setTimeout(() => {
+        this.refresh();
+        reloadBtn.removeClass('is-spinning');
+      }, 800);
+    });
+
+    grid.createEl('div', { cls: 'stb-header-part-center' });
+    const rightPart = grid.createEl('div', { cls: 'stb-header-part-right' });
+    const addCategoryBtn = rightPart.createEl('button', { text: t('BTN_ADD_CAT'), cls: 'mod-cta' });
+    addCategoryBtn.addEventListener('click', () => {
+      new AddCategoryModal(this.app, (name, firstTask, date) => {
+        void this.plugin.addCategory(name, firstTask, date);
+      }).open();
+    });
+
+    const sortGlobalBtn = rightPart.createEl('div', { cls: 'stb-header-icon clickable-icon' });
+    setIcon(sortGlobalBtn, 'arrow-down-a-z');
+    sortGlobalBtn.setAttribute('aria-label', t('TIP_SORT_AZ'));
+    sortGlobalBtn.addEventListener('click', () => {
+      void this.sortAllCategoriesAlphabetically();
+    });
+    const toggleAllBtn = rightPart.createEl('div', { cls: 'stb-header-icon clickable-icon' });
+    setIcon(toggleAllBtn, 'chevrons-up-down');
+    toggleAllBtn.setAttribute('aria-label', t('TIP_TOGGLE_ALL'));
+    toggleAllBtn.addEventListener('click', () => {
+      void this.toggleAllCategories();
+    });
+    const futureBtn = rightPart.createEl('div', { cls: 'stb-header-icon clickable-icon' });
+    setIcon(futureBtn, 'calendar-clock');
+    futureBtn.setAttribute('aria-label', t(this.plugin.settings.showFutureTasks ? 'TIP_HIDE_FUTURE' : 'TIP_SHOW_FUTURE'));
+    if (this.plugin.settings.showFutureTasks) futureBtn.addClass('is-active');
+    futureBtn.addEventListener('click', () => {
+      void (async () => {
+        this.plugin.settings.showFutureTasks = !this.plugin.settings.showFutureTasks;
+        await this.plugin.saveSettings();
+      })();
+    });
+    const trashBtn = rightPart.createEl('div', { cls: 'stb-header-icon clickable-icon' });
+    setIcon(trashBtn, 'trash-2');
+    trashBtn.setAttribute('aria-label', t('TIP_OPEN_TRASH'));
+    trashBtn.addEventListener('click', () => {
+      void this.plugin.activateSideView(VIEW_TYPE_TRASH);
+    });
+    const archiveBtn = rightPart.createEl('div', { cls: 'stb-header-icon clickable-icon' });
+    setIcon(archiveBtn, 'archive');
+    archiveBtn.setAttribute('aria-label', t('TIP_OPEN_ARCHIVE'));
+    archiveBtn.addEventListener('click', () => {
+      void this.plugin.activateSideView(VIEW_TYPE_ARCHIVE);
+    });
+    const activityBtn = rightPart.createEl('div', { cls: 'stb-header-icon clickable-icon' });
+    setIcon(activityBtn, 'history');
+    activityBtn.setAttribute('aria-label', t('TIP_OPEN_ACTIVITY'));
+    activityBtn.addEventListener('click', () => {
+      void this.plugin.activateSideView(VIEW_TYPE_ACTIVITY);
+    });
+    const reportBtn = rightPart.createEl('div', { cls: 'stb-header-icon clickable-icon' });
+    setIcon(reportBtn, 'timer');
+    reportBtn.setAttribute('aria-label', t('COMMAND_TIME_REPORT'));
+    reportBtn.addEventListener('click', () => {
+      new TimeReportModal(this.app, this.plugin).open();
+    });
+    const cleanBtn = rightPart.createEl('div', { cls: 'stb-header-icon clickable-icon' });
+    setIcon(cleanBtn, 'eraser');
+    cleanBtn.setAttribute('aria-label', t('TIP_CLEAN_DONE'));
+    cleanBtn.addEventListener('click', () => {
+      new ConfirmModal(this.app, t('CONFIRM_CLEAN_ALL'), () => {
+        void this.plugin.cleanCompletedTasksIn(this.plugin.getViewContexts());
+      }).open();
+    });
+
+    const filterBar = header.createEl('div', { cls: 'stb-tag-filter-bar' });
+    const filterInput = filterBar.createEl('input', { type: 'search', cls: 'stb-tag-filter', placeholder: t('PLACEHOLDER_TAG_FILTER') });
+    filterInput.setAttribute('aria-label', t('PLACEHOLDER_TAG_FILTER'));
+    filterInput.value = this.tagFilter ? `#${this.tagFilter}` : '';
+    new TagSuggest(this.app, filterInput, () => this.getUsedTags(), tag => this.setTagFilter(tag));
+    filterInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') this.setTagFilter(filterInput.value);
+    });
+    filterInput.addEventListener('search', () => {
+      if (!filterInput.value) this.setTagFilter('');
+    });
+
+    const categoriesContainer = container.createEl('div', { cls: 'stb-categories-list' });
+    const showBadges = this.plugin.settings.activeContext === 'all';
+    this.plugin.getViewContexts().forEach(context => {
+      // Loaded once per store: rows look up blockers in the same list
+      const categories = this.plugin.getCategories(context);
+      categories.forEach((category, index) => {
+        this.renderCategory(categoriesContainer, category, index, context, categories, showBadges);
+      });
+    });
+  }
+
+  setTagFilter(tag: string) {
+    this.tagFilter = normalizeTag(tag);
+    this.refresh();
+  }
+
+  // Every tag used in the stores shown, for autocompletion
+  getUsedTags(): string[] {
+    const tags = new Set<string>();
+    this.plugin.getViewContexts().forEach(context => {
+      this.plugin.getCategories(context).forEach(category => {
+        category.tasks.forEach(task => getTaskTags(task).forEach(tag => tags.add(tag)));
+      });
+    });
+    return Array.from(tags).sort((a, b) => a.localeCompare(b));
+  }
+
+  triggerSyncEffect() {
+    const reloadBtn = this.containerEl.querySelector('.stb-reload-btn');
+    if (reloadBtn) {
+      reloadBtn.addClass('is-syncing');
+      setTimeout(() => reloadBtn.removeClass('is-syncing'), 2000);
+    }
+  }
+
+  renderCategory(container: HTMLElement, category: Category, index: number, context: StorageContext, categories: Category[], showBadge = false) {
+    const catBlock = container.createEl('div', { cls: 'stb-category-block' });
+    if (category.color) {
+      catBlock.setCssProps({ 'background-color': category.color });
     }
 
     catBlock.setAttribute('draggable', 'true');
     catBlock.addEventListener('dragstart', (e) => {
       this.draggedCategoryIndex = index;
+      this.draggedCategoryContext = context;
       catBlock.addClass('stb-dragging');
       e.dataTransfer?.setData('text/plain', index.toString());
       if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
     });
 
-    catBlock.addEventListener('dragend', () => {
-      catBlock.removeClass('stb-dragging');
-      this.draggedCategoryIndex = null;
-      const allBlocks = container.querySelectorAll('.stb-category-block');
-      allBlocks.forEach(b => b.removeClass('stb-drag-over'));
+    catBlock.addEventListener('dragend', () => {
+      catBlock.removeClass('stb-dragging');
+      this.draggedCategoryIndex = null;
+      this.draggedCategoryContext = null;
+      const allBlocks = container.querySelectorAll('.stb-category-block');
+      allBlocks.forEach(b => b.removeClass('stb-drag-over'));
+    });
+
+    catBlock.addEventListener('dragover', (e) => {
+      e.preventDefault();
+      if (this.draggedCategoryIndex === null || this.draggedCategoryContext !== context || this.draggedCategoryIndex === index) return;
+      catBlock.addClass('stb-drag-over');
+    });
+
+    catBlock.addEventListener('dragleave', () => {
+      catBlock.removeClass('stb-drag-over');
+    });
+
+    catBlock.addEventListener('drop', (e) => {
+      e.preventDefault();
+      catBlock.removeClass('stb-drag-over');
+      if (this.draggedCategoryIndex !== null && this.draggedCategoryContext === context && this.draggedCategoryIndex !== index) {
+        void this.reorderCategories(this.draggedCategoryIndex, index, context);
+      }
+    });
+
+    catBlock.addEventListener('contextmenu', (event: MouseEvent) => {
+      event.preventDefault();
+      const menu = new Menu();
+      menu.addItem((item) => {
+        item.setTitle(t('MENU_CHANGE_COLOR')).setIcon("palette");
+      });
+      menu.addSeparator();
+      Object.keys(COLOR_VALUES).forEach((colorName) => {
+        const displayColorName = t(`COLOR_${colorName.toUpperCase()}` as keyof typeof MESSAGES['en']);
+        menu.addItem((item) => {
+          item.setTitle(displayColorName)
+            .setChecked(category.color === COLOR_VALUES[colorName as keyof typeof COLOR_VALUES])
+            .onClick(() => {
+              void this.plugin.updateCategoryColor(category.id, COLOR_VALUES[colorName as keyof typeof COLOR_VALUES], context);
+            });
+        });
+      });
+      this.addTransferItems(menu, context, category.id);
+      menu.showAtPosition({ x: event.clientX, y: event.clientY });
+    });
+
+    const catHeader = catBlock.createEl('div', { cls: 'stb-category-header' });
+    const dragHandle = catHeader.createEl('div', { cls: 'stb-drag-handle clickable-icon' });
+    setIcon(dragHandle, 'grip-vertical');
+    const chevron = catHeader.createEl('div', { cls: 'stb-cat-chevron clickable-icon' });
+    setIcon(chevron, category.isCollapsed ? 'chevron-right' : 'chevron-down');
+    chevron.addEventListener('click', (e) => {
+      e.stopPropagation();
+      void this.plugin.updateCategoryCollapse(category.id, !category.isCollapsed, context);
+    });
+    const title = catHeader.createEl('h3', { text: category.name });
+    if (showBadge) {
+      catHeader.createEl('span', { text: this.plugin.getContextLabel(context), cls: 'stb-source-badge' });
+    }
+    title.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.makeEditable(title, async (newText) => {
+        if (newText && newText !== category.name) {
+          await this.plugin.updateCategory(category.id, { name: newText }, context);
+        }
+      });
+    });
+
+    const addTaskHeaderBtn = catHeader.createEl('div', { cls: 'stb-cat-add-btn clickable-icon' });
+    setIcon(addTaskHeaderBtn, 'plus');
+    addTaskHeaderBtn.setAttribute('aria-label', t('TIP_ADD_TASK'));
+    catHeader.createEl('div', { cls: 'stb-spacer' });
+    const sortBtn = catHeader.createEl('div', { cls: 'stb-cat-sort-btn clickable-icon' });
+    setIcon(sortBtn, 'arrow-up-down');
+    sortBtn.setAttribute('aria-label', t('TIP_SORT_TASKS'));
+    sortBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const menu = new Menu();
+      menu.addItem((item) => {
+        item.setTitle(t('TIP_SORT_DATE')).setIcon("calendar").onClick(() => {
+          void this.sortCategoryTasks(category.id, context);
+        });
+      });
+      menu.addItem((item) => {
+        item.setTitle(t('MENU_SORT_START_DATE')).setIcon("calendar-clock").onClick(() => {
+          void this.sortCategoryTasks(category.id, context, 'startDate');
+        });
+      });
+      menu.addItem((item) => {
+        item.setTitle(t('MENU_SORT_PRIORITY')).setIcon("flag").onClick(() => {
+          void this.sortCategoryTasksByPriority(category.id, context);
+        });
+      });
+      menu.showAtMouseEvent(e);
+    });
+
+    const deleteCatBtn = catHeader.createEl('div', { cls: 'stb-delete-cat-btn clickable-icon' });
+    setIcon(deleteCatBtn, 'trash');
+    deleteCatBtn.setAttribute('aria-label', t('TIP_DELETE_CAT'));
+    deleteCatBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      new ConfirmModal(this.app, t('CONFIRM_DELETE_CAT', category.name), () => {
+        void this.deleteCategory(category.id, context);
+      }).open();
+    });
+
+    if (!category.isCollapsed) {
+      const tasksList = catBlock.createEl('div', { cls: 'stb-tasks-list' });
+      category.tasks.forEach(task => {
+        if (this.tagFilter && !getTaskTags(task).includes(this.tagFilter)) return;
+        if (!this.plugin.settings.showFutureTasks && isNotStarted(task)) return;
+        this.renderTask(tasksList, category, task, context, categories);
+      });
+
+      const inlineContainer = catBlock.createEl('div', { cls: 'stb-add-task-inline' });
+      inlineContainer.hide();
+
+      const showInput = () => {
+        inlineContainer.show();
+        inlineContainer.empty();
+
+        const wrapper = inlineContainer.createEl('div', { cls: 'stb-inline-input-wrapper' });
+        wrapper.setCssProps({ position: 'relative' });
+
+        const input = wrapper.createEl('input', { type: 'text', placeholder: t('INPUT_NEW_TASK') });
+        input.focus();
+
+        const dateBtn = wrapper.createEl('div', { cls: 'stb-inline-date-btn clickable-icon' });
+        setIcon(dateBtn, 'calendar');
+
+        const dateInput = wrapper.createEl('input', { type: 'date', cls: 'stb-hidden-date-input' });
+        dateInput.hide();
+
+        dateBtn.addEventListener('click', (e) => {
+          e.stopPropagation();
+          const btnRect = dateBtn.getBoundingClientRect();
+          const wrapperRect = wrapper.getBoundingClientRect();
+          dateInput.setCssProps({
+            position: 'absolute',
+            top: `${btnRect.bottom - wrapperRect.top + 4}px`,
+            left: `${btnRect.left - wrapperRect.left}px`,
+            'z-index': '1000'
+          });
+          dateInput.show();
+          if ('showPicker' in HTMLInputElement.prototype) {
+            try { (dateInput as HTMLInputElement & { showPicker(): void }).showPicker(); } catch { dateInput.focus(); }
+          } else { dateInput.focus(); }
+        });
+
+        dateInput.addEventListener('change', () => {
+          if (dateInput.value) {
+            dateBtn.addClass('has-date');
+            dateBtn.setAttribute('title', dateInput.value);
+          } else {
+            dateBtn.removeClass('has-date');
+            dateBtn.removeAttribute('title');
+          }
+        });
+
+        const submit = async () => {
+          const text = input.value.trim();
+          if (text) {
+            await this.addTask(category.id, text, dateInput.value || undefined, context);
+          }
+          inlineContainer.empty();
+          inlineContainer.hide();
+        };
+
+        input.addEventListener('keydown', (e) => {
+          if (e.key === 'Enter') void submit();
+          if (e.key === 'Escape') {
+            inlineContainer.empty();
+            inlineContainer.hide();
+          }
+        });
+
+        input.addEventListener('blur', (e) => {
+          if (e.relatedTarget === dateInput || e.relatedTarget === dateBtn || wrapper.contains(e.relatedTarget as Node)) {
+            return;
+          }
+        });
+      };
+
+      addTaskHeaderBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        showInput();
+      });
+    }
+  }
+
+  formatDate(dateStr: string): string {
+    if (!dateStr) return '';
+    const format = this.plugin.settings.dateFormat;
+    let useFr = false;
+
+    if (format === 'Automatic') {
+      const locale = moment.locale();
+      if (locale.startsWith('fr')) useFr = true;
+    } else if (format === 'DD-MM-YYYY') {
+      useFr = true;
+    }
+
+    if (useFr) {
+      const [y, m, d] = dateStr.split('-');
+      return `${d}-${m}-${y}`;
+    }
+    return dateStr;
+  }
+
+  renderTask(container: HTMLElement, category: Category, task: Task, context: StorageContext, categories: Category[]) {
+    const taskRow = container.createEl('div', { cls: 'stb-task-row' });
+    if (isNotStarted(task)) taskRow.addClass('is-not-started');
+    const blockers = getOpenBlockers(categories, task);
+    if (blockers.length > 0 && !task.completed) {
+      taskRow.addClass('is-blocked');
+      container.createEl('div', { cls: 'stb-blockers', text: t('MSG_BLOCKED_BY', blockers.map(blocker => blocker.text).join(', ')) });
+    }
+    const subtaskList = container.createEl('div', { cls: 'stb-subtask-list' });
+
+    const scratchpadBtn = taskRow.createEl('div', { cls: 'stb-scratchpad-btn clickable-icon' });
+    setIcon(scratchpadBtn, 'sticky-note');
+    if (task.scratchpad) scratchpadBtn.addClass('has-content');
+
+    scratchpadBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      new ScratchpadModal(this.app, task.scratchpad || '', (newText) => {
+        if (newText !== task.scratchpad) {
+          void this.plugin.updateTaskScratchpad(category.id, task.id, newText, context);
+        }
+      }).open();
+    });
+
+    if (task.priority && PRIORITIES.includes(task.priority)) {
+      const marker = taskRow.createEl('span', { cls: `stb-priority-marker is-${task.priority}` });
+      marker.setAttribute('aria-label', t(PRIORITY_KEYS[task.priority]));
+    }
+
+    if (blockers.length > 0 && !task.completed) {
+      const lock = taskRow.createEl('div', { cls: 'stb-blocked-icon' });
+      setIcon(lock, 'lock');
+      lock.setAttribute('aria-label', t('MSG_BLOCKED_BY', blockers.map(blocker => blocker.text).join(', ')));
+    }
+
+    const checkbox = taskRow.createEl('input', { type: 'checkbox' });
+    checkbox.checked = task.completed;
+    checkbox.addEventListener('change', () => {
+      void this.toggleTask(category.id, task.id, checkbox.checked, context);
     });
 
-    catBlock.addEventListener('dragover', (e) => {
-      e.preventDefault();
-      if (this.draggedCategoryIndex === null || this.draggedCategoryIndex === index) return;
-      catBlock.addClass('stb-drag-over');
+    const taskText = taskRow.createEl('span', { cls: 'stb-task-text' });
+    this.renderTaskText(taskText, stripTags(task.text) || task.text);
+    if (task.completed) taskText.addClass('is-completed');
+    taskText.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.makeEditable(taskText, async (newText) => {
+        if (newText && newText !== task.text) {
+          await this.plugin.updateTask(category.id, task.id, { text: newText }, context);
+        }
+      }, task.text, true);
     });
 
-    catBlock.addEventListener('dragleave', () => {
-      catBlock.removeClass('stb-drag-over');
+    const tags = getTaskTags(task);
+    if (tags.length > 0) {
+      const tagList = taskRow.createEl('div', { cls: 'stb-task-tags' });
+      tags.forEach(tag => {
+        const chip = tagList.createEl('span', { cls: 'stb-tag-chip', text: `#${tag}` });
+        if (tag === this.tagFilter) chip.addClass('is-active');
+        chip.setAttribute('aria-label', t('TIP_FILTER_TAG'));
+        chip.addEventListener('click', (e) => {
+          e.stopPropagation();
+          this.setTagFilter(tag === this.tagFilter ? '' : tag);
+        });
+      });
+    }
+
+    const rightActions = taskRow.createEl('div', { cls: 'stb-task-right-actions' });
+
+    if (task.subtasks && task.subtasks.length > 0) {
+      const done = task.subtasks.filter(subtask => subtask.completed).length;
+      const progress = rightActions.createEl('span', { cls: 'stb-subtask-progress', text: `${done}/${task.subtasks.length}` });
+      progress.setAttribute('aria-label', t('TIP_SUBTASK_PROGRESS', done.toString(), task.subtasks.length.toString()));
+      if (done === task.subtasks.length) progress.addClass('is-complete');
+    }
+
+    if (task.startDate && isNotStarted(task)) {
+      rightActions.createEl('span', { cls: 'stb-start-badge', text: t('LABEL_STARTS', this.formatDate(task.startDate)) });
+    }
+
+    if (task.dueDate) {
+      if (task.recurrenceType && task.recurrenceType !== 'none') {
+        const recurIcon = rightActions.createEl('div', { cls: 'stb-recurrence-icon clickable-icon' });
+        setIcon(recurIcon, 'calendar-cog');
+
+        recurIcon.setCssProps({
+          color: 'var(--text-accent)',
+          'margin-right': '4px',
+          display: 'inline-flex',
+          'align-items': 'center'
+        });
+
+        recurIcon.addEventListener('click', (e) => {
+          e.stopPropagation();
+          new FutureOccurrencesModal(this.app, task, this.plugin.settings.futureTasksCount, (updatedTask) => {
+            (async () => {
+              await this.plugin.updateTask(category.id, task.id, updatedTask, context);
+              this.refresh();
+            })();
+          }).open();
+        });
+      }
+
+      this.renderDateBadge(rightActions, task.dueDate, task.dueTime);
+    }
+
+    const tracked = getTrackedTime(task, Date.now());
+    const timing = isTiming(task);
+    if (tracked > 0 || timing) {
+      const total = rightActions.createEl('span', { cls: 'stb-time-total', text: formatDuration(tracked) });
+      if (timing) {
+        total.addClass('is-running');
+        this.runningTimers.push({ el: total, task });
+      }
+    }
+    const timerBtn = rightActions.createEl('div', { cls: 'stb-timer-btn clickable-icon' });
+    setIcon(timerBtn, timing ? 'square' : 'play');
+    timerBtn.setAttribute('aria-label', t(timing ? 'TIP_STOP_TIMER' : 'TIP_START_TIMER'));
+    if (timing) timerBtn.addClass('is-running');
+    timerBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      if (timing) void this.plugin.stopTimers(context, task.id);
+      else void this.plugin.startTimer(context, category.id, task.id);
     });
 
-    catBlock.addEventListener('drop', (e) => {
-      e.preventDefault();
-      catBlock.removeClass('stb-drag-over');
-      if (this.draggedCategoryIndex !== null && this.draggedCategoryIndex !== index) {
-        void this.reorderCategories(this.draggedCategoryIndex, index);
+    if (task.reminders && task.reminders.length > 0) {
+      const bell = rightActions.createEl('div', { cls: 'stb-reminder-icon' });
+      setIcon(bell, 'bell');
+      bell.setAttribute('aria-label', task.reminders.map(formatReminderOffset).join(', '));
+    }
+
+    const dateEditBtn = rightActions.createEl('div', { cls: 'stb-task-date-btn clickable-icon' });
+    setIcon(dateEditBtn, 'calendar');
+
+    const deleteBtn = rightActions.createEl('div', { cls: 'stb-delete-task-btn clickable-icon' });
+    setIcon(deleteBtn, 'x');
+    deleteBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      if (this.plugin.settings.confirmTaskDeletion) {
+        new ConfirmModal(this.app, t('CONFIRM_DELETE_TASK'), () => {
+          (async () => {
+            await this.plugin.deleteTask(category.id, task.id, context);
+            this.refresh();
+          })();
+        }).open();
+      } else {
+        void (async () => {
+          await this.plugin.deleteTask(category.id, task.id, context);
+          this.refresh();
+        })();
       }
     });
 
-    catBlock.addEventListener('contextmenu', (event: MouseEvent) => {
+    taskRow.addEventListener('contextmenu', (event: MouseEvent) => {
       event.preventDefault();
       const menu = new Menu();
       menu.addItem((item) => {
-        item.setTitle(t('MENU_CHANGE_COLOR')).setIcon("palette");
+        item.setTitle(t('TIP_DUPLICATE')).setIcon("copy").onClick(() => {
+          void this.plugin.duplicateTask(category.id, task.id, context);
+        });
+      });
+      menu.addItem((item) => {
+        item.setTitle(t('MENU_ADD_SUBTASK')).setIcon("list-plus").onClick(() => {
+          this.showSubtaskInput(subtaskList, category.id, task.id, context);
+        });
+      });
+      menu.addItem((item) => {
+        item.setTitle(t('MENU_ADD_BLOCKER')).setIcon("lock").onClick(() => {
+          const candidates = categories.flatMap(c => c.tasks)
+            .filter(other => other.id !== task.id && !other.completed && !(task.blockedBy || []).includes(other.id));
+          new TaskSuggestModal(this.app, candidates, (blocker) => {
+            void this.plugin.addBlocker(category.id, task.id, blocker.id, context);
+          }).open();
+        });
+      });
+      (task.blockedBy || []).forEach(blockerId => {
+        const blocker = findTask(categories, blockerId);
+        if (!blocker) return;
+        menu.addItem((item) => {
+          item.setTitle(t('MENU_REMOVE_BLOCKER', blocker.text)).setIcon("lock-open").onClick(() => {
+            void this.plugin.removeBlocker(category.id, task.id, blockerId, context);
+          });
+        });
+      });
+      menu.addItem((item) => {
+        item.setTitle(t('MENU_ADD_TAG')).setIcon("tag").onClick(() => {
+          new TagModal(this.app, this.getUsedTags(), (tag) => {
+            if (getTaskTags(task).includes(tag)) return;
+            void this.plugin.updateTask(category.id, task.id, { tags: [...(task.tags || []), tag] }, context);
+          }).open();
+        });
+      });
+      (task.tags || []).forEach(tag => {
+        menu.addItem((item) => {
+          item.setTitle(t('MENU_REMOVE_TAG', tag)).setIcon("tag").onClick(() => {
+            const remaining = (task.tags || []).filter(existing => existing !== tag);
+            void this.plugin.updateTask(category.id, task.id, { tags: remaining.length > 0 ? remaining : undefined }, context);
+          });
+        });
       });
       menu.addSeparator();
-      Object.keys(COLOR_VALUES).forEach((colorName) => {
-        const displayColorName = t(`COLOR_${colorName.toUpperCase()}` as keyof typeof MESSAGES['en']);
+      (['none', ...PRIORITIES] as (TaskPriority | 'none')[]).forEach(level => {
         menu.addItem((item) => {
-          item.setTitle(displayColorName)
-            .setChecked(category.color === COLOR_VALUES[colorName as keyof typeof COLOR_VALUES])
+          item.setTitle(t('MENU_PRIORITY', t(PRIORITY_KEYS[level])))
+            .setIcon("flag")
+            .setChecked((task.priority || 'none') === level)
             .onClick(() => {
-              void this.plugin.updateCategoryColor(category.id, COLOR_VALUES[colorName as keyof typeof COLOR_VALUES]);
+              void this.plugin.updateTask(category.id, task.id, { priority: level === 'none' ? undefined : level }, context);
             });
         });
       });
+      this.addTransferItems(menu, context, category.id, task.id);
       menu.showAtPosition({ x: event.clientX, y: event.clientY });
     });
 
-    const catHeader = catBlock.createEl('div', { cls: 'stb-category-header' });
-    const dragHandle = catHeader.createEl('div', { cls: 'stb-drag-handle clickable-icon' });
-    setIcon(dragHandle, 'grip-vertical');
-    const chevron = catHeader.createEl('div', { cls: 'stb-cat-chevron clickable-icon' });
-    setIcon(chevron, category.isCollapsed ? 'chevron-right' : 'chevron-down');
-    chevron.addEventListener('click', (e) => {
+    dateEditBtn.addEventListener('click', (e) => {
       e.stopPropagation();
-      void this.plugin.updateCategoryCollapse(category.id, !category.isCollapsed);
+      new TaskDateModal(this.app, task, (updatedData) => {
+        (async () => {
+          const updated = { ...task, ...updatedData };
+          await this.plugin.updateTask(category.id, task.id, {
+            startDate: updated.startDate,
+            dueDate: updated.dueDate,
+            dueTime: updated.dueTime,
+            reminders: updated.reminders,
+            recurrenceType: updated.recurrenceType,
+            recurrenceValue: updated.recurrenceValue,
+            recurrenceUntil: updated.recurrenceUntil,
+            recurrenceExdates: updated.recurrenceExdates,
+            priority: updated.priority
+          }, context);
+          this.refresh();
+        })();
+      }).open();
     });
-    const title = catHeader.createEl('h3', { text: category.name });
-    title.addEventListener('click', (e) => {
+
+    (task.subtasks || []).forEach(subtask => this.renderSubtask(subtaskList, category, task, subtask, context));
+  }
+
+  renderDateBadge(container: HTMLElement, dueDate: string, dueTime?: string) {
+    const text = dueTime ? `${this.formatDate(dueDate)} ${dueTime}` : this.formatDate(dueDate);
+    const dateBadge = container.createEl('span', { cls: 'stb-date-badge', text });
+    const todayStr = window.moment().format('YYYY-MM-DD');
+    const pastTime = dueTime !== undefined && window.moment().format('HH:mm') > dueTime;
+    if (dueDate < todayStr || (dueDate === todayStr && pastTime)) dateBadge.addClass('is-overdue');
+    else if (dueDate === todayStr) dateBadge.addClass('is-today');
+  }
+
+  renderSubtask(container: HTMLElement, category: Category, task: Task, subtask: Subtask, context: StorageContext) {
+    const row = container.createEl('div', { cls: 'stb-task-row stb-subtask-row' });
+
+    const checkbox = row.createEl('input', { type: 'checkbox' });
+    checkbox.checked = subtask.completed;
+    checkbox.addEventListener('change', () => {
+      void this.toggleSubtask(category.id, task.id, subtask.id, checkbox.checked, context);
+    });
+
+    const subtaskText = row.createEl('span', { cls: 'stb-task-text', text: subtask.text });
+    if (subtask.completed) subtaskText.addClass('is-completed');
+    subtaskText.addEventListener('click', (e) => {
       e.stopPropagation();
-      this.makeEditable(title, async (newText) => {
-        if (newText && newText !== category.name) {
-          const categories = this.plugin.getCategories();
-          const catToUpdate = categories.find(c => c.id === category.id);
-          if (catToUpdate) {
-            catToUpdate.name = newText;
-            await this.plugin.saveCategories(categories);
-          }
-        }
+      this.makeEditable(subtaskText, async (newText) => {
+        await this.plugin.updateSubtask(category.id, task.id, subtask.id, { text: newText }, context);
       });
     });
 
-    const addTaskHeaderBtn = catHeader.createEl('div', { cls: 'stb-cat-add-btn clickable-icon' });
-    setIcon(addTaskHeaderBtn, 'plus');
-    addTaskHeaderBtn.setAttribute('aria-label', t('TIP_ADD_TASK'));
-    catHeader.createEl('div', { cls: 'stb-spacer' });
-    const sortBtn = catHeader.createEl('div', { cls: 'stb-cat-sort-btn clickable-icon' });
-    setIcon(sortBtn, 'arrow-up-down');
-    sortBtn.setAttribute('aria-label', t('TIP_SORT_DATE'));
-    sortBtn.addEventListener('click', (e) => {
+    const rightActions = row.createEl('div', { cls: 'stb-task-right-actions' });
+    if (subtask.dueDate) this.renderDateBadge(rightActions, subtask.dueDate);
+
+    const dateBtn = rightActions.createEl('div', { cls: 'stb-task-date-btn clickable-icon' });
+    setIcon(dateBtn, 'calendar');
+    const dateInput = rightActions.createEl('input', { type: 'date', cls: 'stb-hidden-date-input stb-subtask-date-input' });
+    dateInput.value = subtask.dueDate || '';
+    dateInput.hide();
+    dateBtn.addEventListener('click', (e) => {
       e.stopPropagation();
-      void this.sortCategoryTasks(category.id);
+      dateInput.show();
+      if ('showPicker' in HTMLInputElement.prototype) {
+        try { (dateInput as HTMLInputElement & { showPicker(): void }).showPicker(); } catch { dateInput.focus(); }
+      } else { dateInput.focus(); }
+    });
+    dateInput.addEventListener('change', () => {
+      void this.plugin.updateSubtask(category.id, task.id, subtask.id, { dueDate: dateInput.value || undefined }, context);
     });
 
-    const deleteCatBtn = catHeader.createEl('div', { cls: 'stb-delete-cat-btn clickable-icon' });
-    setIcon(deleteCatBtn, 'trash');
-    deleteCatBtn.setAttribute('aria-label', t('TIP_DELETE_CAT'));
-    deleteCatBtn.addEventListener('click', (e) => {
+    const deleteBtn = rightActions.createEl('div', { cls: 'stb-delete-task-btn clickable-icon' });
+    setIcon(deleteBtn, 'x');
+    deleteBtn.setAttribute('aria-label', t('TIP_DELETE_SUBTASK'));
+    deleteBtn.addEventListener('click', (e) => {
       e.stopPropagation();
-      new ConfirmModal(this.app, t('CONFIRM_DELETE_CAT', category.name), () => {
-        void this.deleteCategory(category.id);
-      }).open();
+      void this.plugin.deleteSubtask(category.id, task.id, subtask.id, context);
+    });
+  }
+
+  showSubtaskInput(list: HTMLElement, categoryId: string, taskId: string, context: StorageContext) {
+    list.querySelector('.stb-subtask-input')?.remove();
+    const input = list.createEl('input', { type: 'text', cls: 'stb-subtask-input', placeholder: t('INPUT_NEW_SUBTASK') });
+    input.focus();
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        const text = input.value.trim();
+        input.remove();
+        if (text) void this.plugin.addSubtask(categoryId, taskId, text, undefined, context);
+      }
+      if (e.key === 'Escape') input.remove();
+    });
+  }
+
+  // Plain text with the links in it made clickable. Clicks on a link open it instead of editing the task.
+  renderTaskText(container: HTMLElement, text: string) {
+    let last = 0;
+    for (const match of text.matchAll(LINK_PATTERN)) {
+      const index = match.index ?? 0;
+      container.appendText(text.slice(last, index));
+      last = index + match[0].length;
+
+      const [, wikiTarget, alias, label, markdownTarget] = match;
+      const scheme = markdownTarget ? getLinkScheme(markdownTarget) : undefined;
+      const unsafe = [scheme, wikiTarget ? getLinkScheme(wikiTarget) : undefined]
+        .some(linkScheme => linkScheme && !SAFE_LINK_SCHEMES.includes(linkScheme));
+      if (unsafe) {
+        container.appendText(match[0]);
+        continue;
+      }
+      let target = wikiTarget ?? markdownTarget;
+      if (markdownTarget && !scheme) {
+        try {
+          target = decodeURI(markdownTarget);
+        } catch {
+          target = markdownTarget;
+        }
+      }
+      const shown = alias ?? label ?? wikiTarget;
+
+      if (scheme) {
+        const link = container.createEl('a', { cls: 'external-link', text: shown, href: markdownTarget });
+        link.setAttr('target', '_blank');
+        link.setAttr('rel', 'noopener');
+        link.addEventListener('click', (e) => e.stopPropagation());
+        continue;
+      }
+
+      const link = container.createEl('a', { cls: 'internal-link', text: shown, href: target });
+      link.setAttr('data-href', target);
+      if (!this.app.metadataCache.getFirstLinkpathDest(getLinkpath(target), '')) link.addClass('is-unresolved');
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        void this.app.workspace.openLinkText(target, '', Keymap.isModEvent(e));
+      });
+      link.addEventListener('mouseover', (e) => {
+        this.app.workspace.trigger('hover-link', {
+          event: e,
+          source: VIEW_TYPE_TASKS,
+          hoverParent: this,
+          targetEl: link,
+          linktext: target
+        });
+      });
+    }
+    container.appendText(text.slice(last));
+  }
+
+  makeEditable(element: HTMLElement, onSave: (text: string) => Promise<void>, currentText = element.innerText, suggestLinks = false) {
+    // Kept as nodes so that rendered links survive an edit that changes nothing
+    const shownNodes = Array.from(element.childNodes);
+    element.empty();
+    const input = element.createEl('input', {
+      type: 'text',
+      value: currentText,
+      cls: 'stb-inline-input'
     });
+    const linkSuggest = suggestLinks ? new LinkSuggest(this.app, input) : null;
+
+    input.focus();
+    input.addEventListener('click', (e) => e.stopPropagation());
+
+    let isSaving = false;
+
+		const save = async () => {
+			if (isSaving) return;
+			isSaving = true;
+
+			try {
+				const newText = input.value.trim();
+				if (!newText || newText === currentText) {
+					element.empty();
+					element.append(...shownNodes);
+					return;
+				}
+				await onSave(newText);
+			} finally {
+				isSaving = false;
+			}
+		};
+
+		input.addEventListener('keydown', (e) => {
+			// Enter and Escape belong to the link suggestions while they are shown
+			if (linkSuggest?.isOpen) return;
+			if (e.key === 'Enter') {
+				e.preventDefault();
+				void save();
+			}
+			if (e.key === 'Escape') this.refresh();
+		});
 
-    if (!category.isCollapsed) {
-      const tasksList = catBlock.createEl('div', { cls: 'stb-tasks-list' });
-      category.tasks.forEach(task => {
-        this.renderTask(tasksList, category, task);
-      });
+		input.addEventListener('blur', () => void save());
+  }
 
-      const inlineContainer = catBlock.createEl('div', { cls: 'stb-add-task-inline' });
-      inlineContainer.hide();
+  // Tasks without the date count as today
+  async sortCategoryTasks(categoryId: string, context: StorageContext, field: 'dueDate' | 'startDate' = 'dueDate') {
+    let newOrder: 'asc' | 'desc' = 'asc';
+    const saved = await this.plugin.getStore(context).mutate(categories => {
+      const category = categories.find(c => c.id === categoryId);
+      if (!category) return false;
 
-      const showInput = () => {
-        inlineContainer.show();
-        inlineContainer.empty();
+      const currentOrder = category.lastSortOrder || 'desc';
+      newOrder = currentOrder === 'asc' ? 'desc' : 'asc';
+      const todayStr = window.moment().format('YYYY-MM-DD');
 
-        const wrapper = inlineContainer.createEl('div', { cls: 'stb-inline-input-wrapper' });
-        wrapper.setCssProps({ position: 'relative' });
+      category.tasks.sort((a, b) => {
+        const dateA = a[field] || todayStr;
+        const dateB = b[field] || todayStr;
+        if (dateA === dateB) return 0;
+        return newOrder === 'asc' ? (dateA < dateB ? -1 : 1) : (dateA > dateB ? -1 : 1);
+      });
 
-        const input = wrapper.createEl('input', { type: 'text', placeholder: t('INPUT_NEW_TASK') });
-        input.focus();
+      category.lastSortOrder = newOrder;
+    });
+    if (!saved) return;
 
-        const dateBtn = wrapper.createEl('div', { cls: 'stb-inline-date-btn clickable-icon' });
-        setIcon(dateBtn, 'calendar');
+    this.refresh();
+    new Notice(`Sorted tasks ${newOrder === 'asc' ? 'ascending' : 'descending'}`);
+  }
 
-        const dateInput = wrapper.createEl('input', { type: 'date', cls: 'stb-hidden-date-input' });
-        dateInput.hide();
+  // Most important first; tasks of the same priority keep date order, undated ones last
+  async sortCategoryTasksByPriority(categoryId: string, context: StorageContext) {
+    const saved = await this.plugin.getStore(context).mutate(categories => {
+      const category = categories.find(c => c.id === categoryId);
+      if (!category) return false;
+      const rank = (task: Task) => task.priority ? PRIORITIES.indexOf(task.priority) : -1;
+      category.tasks.sort((a, b) => {
+        if (rank(a) !== rank(b)) return rank(b) - rank(a);
+        if ((a.dueDate || '') === (b.dueDate || '')) return 0;
+        if (!a.dueDate) return 1;
+        if (!b.dueDate) return -1;
+        return a.dueDate < b.dueDate ? -1 : 1;
+      });
+    });
+    if (!saved) return;
 
-        dateBtn.addEventListener('click', (e) => {
-          e.stopPropagation();
-          const btnRect = dateBtn.getBoundingClientRect();
-          const wrapperRect = wrapper.getBoundingClientRect();
-          dateInput.setCssProps({
-            position: 'absolute',
-            top: `${btnRect.bottom - wrapperRect.top + 4}px`,
-            left: `${btnRect.left - wrapperRect.left}px`,
-            'z-index': '1000'
-          });
-          dateInput.show();
-          if ('showPicker' in HTMLInputElement.prototype) {
-            try { (dateInput as HTMLInputElement & { showPicker(): void }).showPicker(); } catch { dateInput.focus(); }
-          } else { dateInput.focus(); }
-        });
+    this.refresh();
+    new Notice(t('NOTICE_SORTED_PRIORITY'));
+  }
 
-        dateInput.addEventListener('change', () => {
-          if (dateInput.value) {
-            dateBtn.addClass('has-date');
-            dateBtn.setAttribute('title', dateInput.value);
-          } else {
-            dateBtn.removeClass('has-date');
-            dateBtn.removeAttribute('title');
-          }
+  async sortAllCategoriesAlphabetically() {
+    await this.plugin.history.group(async () => {
+      for (const context of this.plugin.getViewContexts()) {
+        await this.plugin.getStore(context).mutate(categories => {
+          categories.sort((a, b) => a.name.localeCompare(b.name));
         });
+      }
+    });
+    this.refresh();
+    this.plugin.showUndoNotice(t('NOTICE_SORTED_GLOBAL'));
+  }
 
-        const submit = async () => {
-          const text = input.value.trim();
-          if (text) {
-            await this.addTask(category.id, text, dateInput.value || undefined);
-          }
-          inlineContainer.empty();
-          inlineContainer.hide();
-        };
+  async reorderCategories(fromIndex: number, toIndex: number, context: StorageContext) {
+    await this.plugin.getStore(context).mutate(categories => {
+      if (!categories[fromIndex]) return false;
+      const [moved] = categories.splice(fromIndex, 1);
+      categories.splice(toIndex, 0, moved);
+    });
+  }
 
-        input.addEventListener('keydown', (e) => {
-          if (e.key === 'Enter') void submit();
-          if (e.key === 'Escape') {
-            inlineContainer.empty();
-            inlineContainer.hide();
-          }
-        });
+  async addCategory(name: string, firstTaskText: string) {
+    await this.plugin.addCategory(name, firstTaskText);
+  }
 
-        input.addEventListener('blur', (e) => {
-          if (e.relatedTarget === dateInput || e.relatedTarget === dateBtn || wrapper.contains(e.relatedTarget as Node)) {
-            return;
-          }
+  // "Move to" and "Copy to" entries for every other store
+  addTransferItems(menu: Menu, source: StorageContext, categoryId: string, taskId?: string) {
+    const targets = this.plugin.getContexts().filter(context => context !== source);
+    if (targets.length === 0) return;
+    menu.addSeparator();
+    targets.forEach(target => {
+      menu.addItem((item) => {
+        item.setTitle(t('MENU_MOVE_TO', this.plugin.getContextLabel(target))).setIcon("arrow-right-left").onClick(() => {
+          void this.plugin.transferItem('move', source, target, categoryId, taskId);
         });
-      };
-
-      addTaskHeaderBtn.addEventListener('click', (e) => {
-        e.stopPropagation();
-        showInput();
       });
-    }
+    });
+    targets.forEach(target => {
+      menu.addItem((item) => {
+        item.setTitle(t('MENU_COPY_TO', this.plugin.getContextLabel(target))).setIcon("copy-plus").onClick(() => {
+          void this.plugin.transferItem('copy', source, target, categoryId, taskId);
+        });
+      });
+    });
   }
 
-  formatDate(dateStr: string): string {
-    if (!dateStr) return '';
-    const format = this.plugin.settings.dateFormat;
-    let useFr = false;
-
-    if (format === 'Automatic') {
-      const locale = moment.locale();
-      if (locale.startsWith('fr')) useFr = true;
-    } else if (format === 'DD-MM-YYYY') {
-      useFr = true;
-    }
-
-    if (useFr) {
-      const [y, m, d] = dateStr.split('-');
-      return `${d}-${m}-${y}`;
-    }
-    return dateStr;
+  async deleteCategory(id: string, context: StorageContext) {
+    await this.plugin.deleteCategory(id, context);
   }
 
-  renderTask(container: HTMLElement, category: Category, task: Task) {
-    const taskRow = container.createEl('div', { cls: 'stb-task-row' });
+  async addTask(categoryId: string, text: string, dueDate: string | undefined, context: StorageContext) {
+    await this.plugin.getStore(context).mutate(categories => {
+      const category = categories.find(c => c.id === categoryId);
+      if (!category) return false;
+      category.tasks.push({
+        id: newId(),
+        text: text,
+        completed: false,
+        dueDate: dueDate
+      });
+    });
+  }
 
-    const scratchpadBtn = taskRow.createEl('div', { cls: 'stb-scratchpad-btn clickable-icon' });
-    setIcon(scratchpadBtn, 'sticky-note');
-    if (task.scratchpad) scratchpadBtn.addClass('has-content');
+  async toggleTask(categoryId: string, taskId: string, completed: boolean, context: StorageContext) {
+    await this.plugin.getStore(context).mutate(categories => {
+      const task = categories.find(c => c.id === categoryId)?.tasks.find(t => t.id === taskId);
+      if (!task) return false;
+      // Tasks for which this one is the last open blocker
+      const waiting = task.completed ? [] : categories.flatMap(c => c.tasks)
+        .filter(other => !other.completed && other.blockedBy?.includes(task.id) && getOpenBlockers(categories, other).length === 1);
+
+      if (completed && task.recurrenceType && task.recurrenceType !== 'none') {
+        let nextDate = window.moment(task.dueDate || undefined);
+        if (!task.dueDate) nextDate = window.moment();
+        const value = task.recurrenceValue || 1;
+
+        switch (task.recurrenceType) {
+          case 'daily': nextDate.add(1, 'days'); break;
+          case 'weekly': nextDate.add(1, 'weeks'); break;
+          case 'monthly': nextDate.add(1, 'months'); break;
+          case 'custom_days': nextDate.add(value, 'days'); break;
+        }
 
-    scratchpadBtn.addEventListener('click', (e) => {
-      e.stopPropagation();
-      new ScratchpadModal(this.app, task.scratchpad || '', (newText) => {
-        if (newText !== task.scratchpad) {
-          void this.plugin.updateTaskScratchpad(category.id, task.id, newText);
+        let loopGuard = 0;
+        while (task.recurrenceExdates && task.recurrenceExdates.includes(nextDate.format('YYYY-MM-DD')) && loopGuard < 100) {
+          switch (task.recurrenceType) {
+            case 'daily': nextDate.add(1, 'days'); break;
+            case 'weekly': nextDate.add(1, 'weeks'); break;
+            case 'monthly': nextDate.add(1, 'months'); break;
+            case 'custom_days': nextDate.add(value, 'days'); break;
+          }
+          loopGuard++;
         }
-      }).open();
-    });
 
-    const checkbox = taskRow.createEl('input', { type: 'checkbox' });
-    checkbox.checked = task.completed;
-    checkbox.addEventListener('change', () => {
-      void this.toggleTask(category.id, task.id, checkbox.checked);
-    });
+        const finalNextDateStr = nextDate.format('YYYY-MM-DD');
+        let shouldRecur = true;
+        if (task.recurrenceUntil) {
+          if (nextDate.isAfter(moment(task.recurrenceUntil))) shouldRecur = false;
+        }
 
-    const taskText = taskRow.createEl('span', { cls: 'stb-task-text', text: task.text });
-    if (task.completed) taskText.addClass('is-completed');
-    taskText.addEventListener('click', (e) => {
-      e.stopPropagation();
-      this.makeEditable(taskText, async (newText) => {
-        if (newText && newText !== task.text) {
-          const categories = this.plugin.getCategories();
-          const cat = categories.find(c => c.id === category.id);
-          if (cat) {
-            const taskToUpdate = cat.tasks.find(t => t.id === task.id);
-            if (taskToUpdate) {
-              taskToUpdate.text = newText;
-              await this.plugin.saveCategories(categories);
-            }
+        if (shouldRecur) {
+          task.completed = false;
+          // The next occurrence starts as long before its due date as this one did
+          if (task.startDate && task.dueDate) {
+            const lead = window.moment(task.dueDate).diff(window.moment(task.startDate), 'days');
+            task.startDate = window.moment(finalNextDateStr).subtract(lead, 'days').format('YYYY-MM-DD');
           }
+          task.dueDate = finalNextDateStr;
+          task.subtasks?.forEach(subtask => { subtask.completed = false; });
+          new Notice(t('NOTICE_NEXT_OCCURRENCE', task.dueDate));
+        } else {
+          task.completed = true;
+          task.completedAt = Date.now();
+          new Notice(t('NOTICE_RECURRENCE_ENDED'));
         }
-      });
+      } else {
+        task.completed = completed;
+        if (completed) {
+          task.completedAt = Date.now();
+          // A completed task is no longer worked on, so its timer stops whoever started it
+          endTimeEntries(task, Date.now());
+        } else {
+          delete task.completedAt;
+        }
+      }
+      if (task.completed) waiting.forEach(other => new Notice(t('NOTICE_UNBLOCKED', other.text)));
     });
+  }
 
-    const rightActions = taskRow.createEl('div', { cls: 'stb-task-right-actions' });
-
-    if (task.dueDate) {
-      if (task.recurrenceType && task.recurrenceType !== 'none') {
-        const recurIcon = rightActions.createEl('div', { cls: 'stb-recurrence-icon clickable-icon' });
-        setIcon(recurIcon, 'calendar-cog');
+  async deleteTask(categoryId: string, taskId: string, context: StorageContext) {
+    await this.plugin.deleteTask(categoryId, taskId, context);
+  }
 
-        recurIcon.setCssProps({
-          color: 'var(--text-accent)',
-          'margin-right': '4px',
-          display: 'inline-flex',
-          'align-items': 'center'
-        });
+  // With auto-completion on, checking the last open subtask also checks the parent, as one undo step
+  async toggleSubtask(categoryId: string, taskId: string, subtaskId: string, completed: boolean, context: StorageContext) {
+    await this.plugin.history.group(async () => {
+      let allDone = false;
+      await this.plugin.getStore(context).mutate(categories => {
+        const task = categories.find(c => c.id === categoryId)?.tasks.find(t => t.id === taskId);
+        const subtask = task?.subtasks?.find(s => s.id === subtaskId);
+        if (!task?.subtasks || !subtask) return false;
+        subtask.completed = completed;
+        allDone = !task.completed && task.subtasks.every(s => s.completed);
+      });
+      if (completed && allDone && this.plugin.settings.autoCompleteParent) {
+        await this.toggleTask(categoryId, taskId, true, context);
+      }
+    });
+  }
 
-        recurIcon.addEventListener('click', (e) => {
-          e.stopPropagation();
-          new FutureOccurrencesModal(this.app, task, this.plugin.settings.futureTasksCount, (updatedTask) => {
-            (async () => {
-              Object.assign(task, updatedTask);
-              const categories = this.plugin.getCategories();
-              const currentCat = categories.find(c => c.id === category.id);
-              if (currentCat) {
-                const currentTask = currentCat.tasks.find(t => t.id === task.id);
-                if (currentTask) {
-                  Object.assign(currentTask, updatedTask);
-                  await this.plugin.saveCategories(categories);
-                }
-              } else {
-                await this.plugin.saveCategories(categories);
-              }
-              this.refresh();
-            })();
-          }).open();
+  async toggleAllCategories() {
+    const contexts = this.plugin.getViewContexts();
+    const anyOpen = contexts.some(context => this.plugin.getCategories(context).some(c => !c.isCollapsed));
+    await this.plugin.history.group(async () => {
+      for (const context of contexts) {
+        await this.plugin.getStore(context).mutate(categories => {
+          categories.forEach(c => {
+            c.isCollapsed = anyOpen;
+          });
         });
       }
+    });
+  }
 
-      const formattedDate = this.formatDate(task.dueDate);
-      const dateBadge = rightActions.createEl('span', { cls: 'stb-date-badge', text: formattedDate });
-      const todayStr = window.moment().format('YYYY-MM-DD');
-      if (task.dueDate < todayStr) dateBadge.addClass('is-overdue');
-      else if (task.dueDate === todayStr) dateBadge.addClass('is-today');
-    }
+  async updateCategoryColor(categoryId: string, color: string, context: StorageContext) {
+    await this.plugin.updateCategoryColor(categoryId, color, context);
+  }
+}
 
-    const dateEditBtn = rightActions.createEl('div', { cls: 'stb-task-date-btn clickable-icon' });
-    setIcon(dateEditBtn, 'calendar');
+// Deleted tasks and categories of every store, with restore and permanent delete
+class TrashView extends ItemView {
+  plugin: SimpleTasksBlocksPlugin;
+  icon = "trash-2";
 
-    const deleteBtn = rightActions.createEl('div', { cls: 'stb-delete-task-btn clickable-icon' });
-    setIcon(deleteBtn, 'x');
-    deleteBtn.addEventListener('click', (e) => {
-      e.stopPropagation();
-      if (this.plugin.settings.confirmTaskDeletion) {
-        new ConfirmModal(this.app, t('CONFIRM_DELETE_TASK'), () => {
-          (async () => {
-            await this.plugin.deleteTask(category.id, task.id, this.plugin.settings.activeContext === 'shared');
-            this.refresh();
-          })();
-        }).open();
-      } else {
+  constructor(leaf: WorkspaceLeaf, plugin: SimpleTasksBlocksPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return VIEW_TYPE_TRASH;
+  }
+
+  getDisplayText() {
+    return t('VIEW_TRASH_TEXT');
+  }
+
+  onOpen() {
+    this.refresh();
+    return Promise.resolve();
+  }
+
+  refresh() {
+    const container = this.containerEl.children[1];
+    container.empty();
+    container.addClass('stb-container');
+    container.addClass('stb-trash');
+
+    const stores = this.plugin.getContexts()
+      .map(context => ({ context, trash: this.plugin.getBaseStore(context).loadSections().trash }))
+      .filter(store => store.trash.length > 0);
+
+    const header = container.createEl('div', { cls: 'stb-trash-header' });
+    header.createEl('h3', { text: t('VIEW_TRASH_TEXT') });
+    if (stores.length === 0) {
+      container.createEl('p', { text: t('MSG_TRASH_EMPTY'), cls: 'stb-trash-empty' });
+      return;
+    }
+
+    const emptyBtn = header.createEl('button', { text: t('BTN_EMPTY_TRASH'), cls: 'mod-warning' });
+    emptyBtn.addEventListener('click', () => {
+      new ConfirmModal(this.app, t('CONFIRM_EMPTY_TRASH'), () => {
         void (async () => {
-          await this.plugin.deleteTask(category.id, task.id, this.plugin.settings.activeContext === 'shared');
+          for (const { context } of stores) {
+            await this.plugin.deleteFromTrash(context);
+          }
           this.refresh();
         })();
-      }
+      }).open();
     });
 
-    taskRow.addEventListener('contextmenu', (event: MouseEvent) => {
-      event.preventDefault();
-      const menu = new Menu();
-      menu.addItem((item) => {
-        item.setTitle(t('TIP_DUPLICATE')).setIcon("copy").onClick(() => {
-          void this.plugin.duplicateTask(category.id, task.id);
+    stores.forEach(({ context, trash }) => {
+      container.createEl('h4', { text: this.plugin.getContextLabel(context), cls: 'stb-trash-source' });
+      [...trash].sort((a, b) => b.deletedAt - a.deletedAt).forEach(entry => {
+        const row = container.createEl('div', { cls: 'stb-trash-row' });
+        const info = row.createEl('div', { cls: 'stb-trash-info' });
+        if (entry.category) {
+          info.createEl('div', { text: entry.category.name, cls: 'stb-trash-title' });
+          info.createEl('div', { text: t('MSG_TRASH_CATEGORY', entry.category.tasks.length.toString(), moment(entry.deletedAt).fromNow()), cls: 'stb-trash-meta' });
+        } else if (entry.task) {
+          info.createEl('div', { text: entry.task.text, cls: 'stb-trash-title' });
+          info.createEl('div', { text: t('MSG_TRASH_TASK', entry.categoryName, moment(entry.deletedAt).fromNow()), cls: 'stb-trash-meta' });
+        }
+
+        const restoreBtn = row.createEl('div', { cls: 'clickable-icon' });
+        setIcon(restoreBtn, 'rotate-ccw');
+        restoreBtn.setAttribute('aria-label', t('TIP_RESTORE_TRASH'));
+        restoreBtn.addEventListener('click', () => {
+          void this.plugin.restoreFromTrash(context, entry.id);
+        });
+
+        const deleteBtn = row.createEl('div', { cls: 'clickable-icon' });
+        setIcon(deleteBtn, 'x');
+        deleteBtn.setAttribute('aria-label', t('TIP_DELETE_FOREVER'));
+        deleteBtn.addEventListener('click', () => {
+          void this.plugin.deleteFromTrash(context, entry.id);
         });
       });
-      menu.showAtPosition({ x: event.clientX, y: event.clientY });
     });
+  }
+}
+
+// Tasks archived by the clean action, searchable by text, category and completion date
+class ArchiveView extends ItemView {
+  plugin: SimpleTasksBlocksPlugin;
+  icon = "archive";
+  query = '';
+  categoryName = '';
+  fromDate = '';
+  toDate = '';
+
+  constructor(leaf: WorkspaceLeaf, plugin: SimpleTasksBlocksPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return VIEW_TYPE_ARCHIVE;
+  }
+
+  getDisplayText() {
+    return t('VIEW_ARCHIVE_TEXT');
+  }
+
+  onOpen() {
+    this.refresh();
+    return Promise.resolve();
+  }
 
-    dateEditBtn.addEventListener('click', (e) => {
-      e.stopPropagation();
-      new TaskDateModal(this.app, task, (updatedData) => {
-        (async () => {
-          Object.assign(task, updatedData);
-          const categories = this.plugin.getCategories();
-          const currentCat = categories.find(c => c.id === category.id);
-          if (currentCat) {
-            const currentTask = currentCat.tasks.find(t => t.id === task.id);
-            if (currentTask) {
-              currentTask.dueDate = task.dueDate;
-              currentTask.recurrenceType = task.recurrenceType;
-              currentTask.recurrenceValue = task.recurrenceValue;
-              currentTask.recurrenceUntil = task.recurrenceUntil;
-              currentTask.recurrenceExdates = task.recurrenceExdates;
-              await this.plugin.saveCategories(categories);
-            }
-          }
-          this.refresh();
-        })();
-      }).open();
+  refresh() {
+    const container = this.containerEl.children[1];
+    container.empty();
+    container.addClass('stb-container');
+    container.addClass('stb-archive');
+    container.createEl('h3', { text: t('VIEW_ARCHIVE_TEXT') });
+
+    const entries = this.plugin.getContexts().flatMap(context =>
+      this.plugin.getBaseStore(context).loadSections().archive.map(entry => ({ context, entry })));
+
+    const filters = container.createEl('div', { cls: 'stb-archive-filters' });
+    const search = filters.createEl('input', { type: 'search', placeholder: t('PLACEHOLDER_SEARCH_ARCHIVE') });
+    search.value = this.query;
+    const categorySelect = filters.createEl('select', { cls: 'dropdown' });
+    categorySelect.createEl('option', { value: '', text: t('OPT_ALL_CATEGORIES') });
+    Array.from(new Set(entries.map(({ entry }) => entry.categoryName))).sort((a, b) => a.localeCompare(b)).forEach(name => {
+      categorySelect.createEl('option', { value: name, text: name });
     });
+    categorySelect.value = this.categoryName;
+    const dates = filters.createEl('div', { cls: 'stb-archive-dates' });
+    dates.createEl('label', { text: t('FIELD_FROM') });
+    const fromInput = dates.createEl('input', { type: 'date' });
+    fromInput.value = this.fromDate;
+    dates.createEl('label', { text: t('FIELD_TO') });
+    const toInput = dates.createEl('input', { type: 'date' });
+    toInput.value = this.toDate;
+
+    const list = container.createEl('div', { cls: 'stb-archive-list' });
+    const renderList = () => {
+      this.query = search.value;
+      this.categoryName = categorySelect.value;
+      this.fromDate = fromInput.value;
+      this.toDate = toInput.value;
+      this.renderEntries(list, entries);
+    };
+    search.addEventListener('input', renderList);
+    categorySelect.addEventListener('change', renderList);
+    fromInput.addEventListener('change', renderList);
+    toInput.addEventListener('change', renderList);
+    this.renderEntries(list, entries);
   }
 
-  makeEditable(element: HTMLElement, onSave: (text: string) => Promise<void>) {
-    const currentText = element.innerText;
-    element.empty();
-    const input = element.createEl('input', {
-      type: 'text',
-      value: currentText,
-      cls: 'stb-inline-input'
+  renderEntries(list: HTMLElement, entries: { context: StorageContext; entry: ArchiveEntry }[]) {
+    list.empty();
+    const query = this.query.trim().toLowerCase();
+    const matches = entries.filter(({ entry }) => {
+      // Tasks completed before completion times were recorded count from the day they were archived
+      const day = moment(entry.task.completedAt ?? entry.archivedAt).format('YYYY-MM-DD');
+      if (query && !entry.task.text.toLowerCase().includes(query) && !(entry.task.scratchpad || '').toLowerCase().includes(query)) return false;
+      if (this.categoryName && entry.categoryName !== this.categoryName) return false;
+      if (this.fromDate && day < this.fromDate) return false;
+      if (this.toDate && day > this.toDate) return false;
+      return true;
+    }).sort((a, b) => (b.entry.task.completedAt ?? b.entry.archivedAt) - (a.entry.task.completedAt ?? a.entry.archivedAt));
+
+    if (matches.length === 0) {
+      list.createEl('p', { text: t('MSG_ARCHIVE_EMPTY'), cls: 'stb-trash-empty' });
+      return;
+    }
+
+    matches.forEach(({ context, entry }) => {
+      const row = list.createEl('div', { cls: 'stb-trash-row' });
+      const info = row.createEl('div', { cls: 'stb-trash-info' });
+      info.createEl('div', { text: entry.task.text, cls: 'stb-trash-title' });
+      const completed = moment(entry.task.completedAt ?? entry.archivedAt).format('LL');
+      info.createEl('div', { text: t('MSG_ARCHIVE_ENTRY', entry.categoryName, this.plugin.getContextLabel(context), completed), cls: 'stb-trash-meta' });
+
+      const unarchiveBtn = row.createEl('div', { cls: 'clickable-icon' });
+      setIcon(unarchiveBtn, 'archive-restore');
+      unarchiveBtn.setAttribute('aria-label', t('TIP_UNARCHIVE'));
+      unarchiveBtn.addEventListener('click', () => {
+        void this.plugin.unarchiveTask(context, entry.id);
+      });
     });
+  }
+}
 
-    input.focus();
-    input.addEventListener('click', (e) => e.stopPropagation());
+// Who changed what in the vault file and the shared files, newest first
+class ActivityView extends ItemView {
+  plugin: SimpleTasksBlocksPlugin;
+  icon = "history";
 
-    let isSaving = false;
+  constructor(leaf: WorkspaceLeaf, plugin: SimpleTasksBlocksPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
 
-		const save = async () => {
-			if (isSaving) return;
-			isSaving = true;
+  getViewType() {
+    return VIEW_TYPE_ACTIVITY;
+  }
 
-			try {
-				const newText = input.value.trim();
-				if (!newText || newText === currentText) {
-					element.empty();
-					element.innerText = currentText;
-					return;
-				}
-				await onSave(newText);
-			} finally {
-				isSaving = false;
-			}
-		};
+  getDisplayText() {
+    return t('VIEW_ACTIVITY_TEXT');
+  }
 
-		input.addEventListener('keydown', (e) => {
-			if (e.key === 'Enter') {
-				e.preventDefault();
-				void save();
-			}
-			if (e.key === 'Escape') this.refresh();
-		});
+  onOpen() {
+    this.refresh();
+    return Promise.resolve();
+  }
 
-		input.addEventListener('blur', () => void save());
+  refresh() {
+    const container = this.containerEl.children[1];
+    container.empty();
+    container.addClass('stb-container');
+    container.addClass('stb-activity');
+    container.createEl('h3', { text: t('VIEW_ACTIVITY_TEXT') });
+
+    const logs = this.plugin.getContexts()
+      .map(context => ({ context, activity: this.plugin.getActivity(context) }))
+      .filter(log => log.activity.length > 0);
+    if (logs.length === 0) {
+      container.createEl('p', { text: t('MSG_ACTIVITY_EMPTY'), cls: 'stb-trash-empty' });
+      return;
+    }
+
+    logs.forEach(({ context, activity }) => {
+      container.createEl('h4', { text: this.plugin.getContextLabel(context), cls: 'stb-trash-source' });
+      [...activity].sort((a, b) => b.at - a.at).forEach(entry => {
+        const row = container.createEl('div', { cls: 'stb-trash-row' });
+        const info = row.createEl('div', { cls: 'stb-trash-info' });
+        const by = entry.by === this.plugin.settings.writerId ? t('MSG_ACTIVITY_THIS_VAULT', entry.vault) : entry.vault;
+        info.createEl('div', { text: t('MSG_ACTIVITY_ENTRY', by, moment(entry.at).format('LLL')), cls: 'stb-trash-meta' });
+        const list = info.createEl('ul', { cls: 'stb-activity-changes' });
+        entry.changes.forEach(change => list.createEl('li', { text: describeActivityChange(change) }));
+        if (entry.more) list.createEl('li', { text: t('MSG_ACTIVITY_MORE', entry.more.toString()) });
+      });
+    });
   }
+}
 
-  async sortCategoryTasks(categoryId: string) {
-    const categories = this.plugin.getCategories();
-    const category = categories.find(c => c.id === categoryId);
-    if (!category) return;
+// --- Modals ---
 
-    const currentOrder = category.lastSortOrder || 'desc';
-    const newOrder = currentOrder === 'asc' ? 'desc' : 'asc';
-    const todayStr = window.moment().format('YYYY-MM-DD');
+// Suggests tags already in use while typing
+class TagSuggest extends AbstractInputSuggest<string> {
+  getTags: () => string[];
+  onPick: (tag: string) => void;
 
-    category.tasks.sort((a, b) => {
-      const dateA = a.dueDate || todayStr;
-      const dateB = b.dueDate || todayStr;
-      if (dateA === dateB) return 0;
-      return newOrder === 'asc' ? (dateA < dateB ? -1 : 1) : (dateA > dateB ? -1 : 1);
-    });
+  constructor(app: App, inputEl: HTMLInputElement, getTags: () => string[], onPick: (tag: string) => void) {
+    super(app, inputEl);
+    this.getTags = getTags;
+    this.onPick = onPick;
+  }
 
-    category.lastSortOrder = newOrder;
-    const isShared = this.plugin.settings.activeContext === 'shared';
-    await this.plugin.saveCategories(categories, isShared);
+  getSuggestions(query: string): string[] {
+    const search = normalizeTag(query);
+    return this.getTags().filter(tag => tag.includes(search));
+  }
 
-    this.refresh();
-    new Notice(`Sorted tasks ${newOrder === 'asc' ? 'ascending' : 'descending'}`);
+  renderSuggestion(tag: string, el: HTMLElement) {
+    el.setText(`#${tag}`);
   }
 
-  async sortAllCategoriesAlphabetically() {
-    const categories = this.plugin.getCategories();
-    categories.sort((a, b) => a.name.localeCompare(b.name));
-    await this.plugin.saveCategories(categories);
-    this.refresh();
-    new Notice(t('NOTICE_SORTED_GLOBAL'));
+  selectSuggestion(tag: string) {
+    this.setValue(`#${tag}`);
+    this.close();
+    this.onPick(tag);
   }
+}
 
-  async reorderCategories(fromIndex: number, toIndex: number) {
-    const categories = this.plugin.getCategories();
-    const [moved] = categories.splice(fromIndex, 1);
-    categories.splice(toIndex, 0, moved);
-    await this.plugin.saveCategories(categories);
+// Suggests vault files while a `[[` link is being typed, and completes it
+class LinkSuggest extends AbstractInputSuggest<TFile> {
+  inputEl: HTMLInputElement;
+  isOpen = false;
+
+  constructor(app: App, inputEl: HTMLInputElement) {
+    super(app, inputEl);
+    this.inputEl = inputEl;
   }
 
-  async addCategory(name: string, firstTaskText: string) {
-    await this.plugin.addCategory(name, firstTaskText);
+  open() {
+    super.open();
+    this.isOpen = true;
   }
 
-  async deleteCategory(id: string) {
-    await this.plugin.deleteCategory(id);
+  close() {
+    super.close();
+    this.isOpen = false;
   }
 
-  async addTask(categoryId: string, text: string, dueDate?: string) {
-    const categories = this.plugin.getCategories();
-    const category = categories.find(c => c.id === categoryId);
-    if (category) {
-      category.tasks.push({
-        id: Date.now().toString(),
-        text: text,
-        completed: false,
-        dueDate: dueDate
-      });
-      await this.plugin.saveCategories(categories);
-    }
+  getSuggestions(query: string): TFile[] {
+    const beforeCursor = query.slice(0, this.inputEl.selectionStart ?? query.length);
+    const typed = beforeCursor.match(OPEN_LINK_PATTERN);
+    if (!typed) return [];
+    const search = typed[1].toLowerCase();
+    return this.app.vault.getFiles()
+      .filter(file => file.path.toLowerCase().includes(search))
+      .sort((a, b) => b.stat.mtime - a.stat.mtime)
+      .slice(0, 20);
   }
 
-  async toggleTask(categoryId: string, taskId: string, completed: boolean) {
-    const categories = this.plugin.getCategories();
-    const category = categories.find(c => c.id === categoryId);
-    if (category) {
-      const task = category.tasks.find(t => t.id === taskId);
-      if (task) {
-        if (completed && task.recurrenceType && task.recurrenceType !== 'none') {
-          let nextDate = window.moment(task.dueDate || undefined);
-          if (!task.dueDate) nextDate = window.moment();
-          const value = task.recurrenceValue || 1;
+  renderSuggestion(file: TFile, el: HTMLElement) {
+    el.createEl('div', { text: file.extension === 'md' ? file.basename : file.name });
+    el.createEl('small', { cls: 'stb-link-suggest-path', text: file.path });
+  }
 
-          switch (task.recurrenceType) {
-            case 'daily': nextDate.add(1, 'days'); break;
-            case 'weekly': nextDate.add(1, 'weeks'); break;
-            case 'monthly': nextDate.add(1, 'months'); break;
-            case 'custom_days': nextDate.add(value, 'days'); break;
-          }
+  selectSuggestion(file: TFile) {
+    const value = this.inputEl.value;
+    const cursor = this.inputEl.selectionStart ?? value.length;
+    const beforeCursor = value.slice(0, cursor).replace(OPEN_LINK_PATTERN, `[[${this.app.metadataCache.fileToLinktext(file, '', true)}]]`);
+    const afterCursor = value.slice(cursor).replace(/^\]\]/, '');
+    this.setValue(beforeCursor + afterCursor);
+    this.inputEl.setSelectionRange(beforeCursor.length, beforeCursor.length);
+    this.close();
+  }
+}
 
-          let loopGuard = 0;
-          while (task.recurrenceExdates && task.recurrenceExdates.includes(nextDate.format('YYYY-MM-DD')) && loopGuard < 100) {
-            switch (task.recurrenceType) {
-              case 'daily': nextDate.add(1, 'days'); break;
-              case 'weekly': nextDate.add(1, 'weeks'); break;
-              case 'monthly': nextDate.add(1, 'months'); break;
-              case 'custom_days': nextDate.add(value, 'days'); break;
-            }
-            loopGuard++;
-          }
+// Picks a task of the current store by name
+class TaskSuggestModal extends FuzzySuggestModal<Task> {
+  tasks: Task[];
+  onChoose: (task: Task) => void;
 
-          const finalNextDateStr = nextDate.format('YYYY-MM-DD');
-          let shouldRecur = true;
-          if (task.recurrenceUntil) {
-            if (nextDate.isAfter(moment(task.recurrenceUntil))) shouldRecur = false;
-          }
+  constructor(app: App, tasks: Task[], onChoose: (task: Task) => void) {
+    super(app);
+    this.tasks = tasks;
+    this.onChoose = onChoose;
+    this.setPlaceholder(t('PLACEHOLDER_CHOOSE_BLOCKER'));
+  }
 
-          if (shouldRecur) {
-            task.completed = false;
-            task.dueDate = finalNextDateStr;
-            new Notice(t('NOTICE_NEXT_OCCURRENCE', task.dueDate));
-          } else {
-            task.completed = true;
-            new Notice(t('NOTICE_RECURRENCE_ENDED'));
-          }
-        } else {
-          task.completed = completed;
-        }
+  getItems(): Task[] {
+    return this.tasks;
+  }
 
-        await this.plugin.saveCategories(categories);
-      }
-    }
+  getItemText(task: Task): string {
+    return task.text;
   }
 
-  async deleteTask(categoryId: string, taskId: string) {
-    const categories = this.plugin.getCategories();
-    const category = categories.find(c => c.id === categoryId);
-    if (category) {
-      category.tasks = category.tasks.filter(t => t.id !== taskId);
-      await this.plugin.saveCategories(categories);
-    }
+  onChooseItem(task: Task) {
+    this.onChoose(task);
   }
+}
 
-  async toggleAllCategories() {
-    const categories = this.plugin.getCategories();
-    const anyOpen = categories.some(c => !c.isCollapsed);
-    categories.forEach(c => {
-      c.isCollapsed = anyOpen;
+class TagModal extends Modal {
+  usedTags: string[];
+  onSubmit: (tag: string) => void;
+
+  constructor(app: App, usedTags: string[], onSubmit: (tag: string) => void) {
+    super(app);
+    this.usedTags = usedTags;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: t('MENU_ADD_TAG') });
+    const tagDiv = contentEl.createDiv({ cls: 'stb-modal-field' });
+    tagDiv.createEl("label", { text: t('FIELD_TAG') });
+    const tagInput = tagDiv.createEl("input", { type: "text", placeholder: '#tag' });
+    const submit = (value: string) => {
+      const tag = normalizeTag(value);
+      if (!isTag(tag)) {
+        new Notice(t('ERR_INVALID_TAG'));
+        return;
+      }
+      this.onSubmit(tag);
+      this.close();
+    };
+    new TagSuggest(this.app, tagInput, () => this.usedTags, tag => submit(tag));
+    tagInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') submit(tagInput.value);
     });
-    await this.plugin.saveCategories(categories);
+
+    const buttonDiv = contentEl.createDiv({ cls: 'stb-modal-actions' });
+    const submitBtn = buttonDiv.createEl("button", { text: t('BTN_SAVE'), cls: "mod-cta" });
+    submitBtn.addEventListener("click", () => submit(tagInput.value));
+    tagInput.focus();
   }
 
-  async updateCategoryColor(categoryId: string, color: string) {
-    const categories = this.plugin.getCategories();
-    const category = categories.find(c => c.id === categoryId);
-    if (category) {
-      category.color = color;
-      await this.plugin.saveCategories(categories);
-    }
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
   }
 }
 
-// --- Modals ---
-
 class AddCategoryModal extends Modal {
   onSubmit: (name: string, firstTask: string, date?: string) => void;
 
@@ -1382,7 +4423,7 @@ class FutureOccurrencesModal extends Modal {
       deleteBtn.addEventListener('click', () => {
         new ConfirmModal(this.app, t('CONFIRM_SKIP_DATE', dateStr), () => {
           const newExdates = [...(this.task.recurrenceExdates || []), dateStr];
-          this.task.recurrenceExdates = newExdates;
+          this.task = { ...this.task, recurrenceExdates: newExdates };
           this.onSave({ recurrenceExdates: newExdates });
           new Notice(t('NOTICE_SKIPPED'));
           this.display();
@@ -1476,26 +4517,46 @@ class TaskDateModal extends Modal {
   task: Task;
   onSave: (updatedData: Partial<Task>) => void;
   tempDate: string;
+  tempStartDate: string;
+  tempTime: string;
+  tempReminders: number[];
   tempRecurType: 'none' | 'daily' | 'weekly' | 'monthly' | 'custom_days';
   tempRecurValue: number;
   tempRecurUntil: string;
   tempUntilMode: 'never' | 'until';
+  tempPriority: TaskPriority | 'none';
 
   constructor(app: App, task: Task, onSave: (updatedData: Partial<Task>) => void) {
     super(app);
     this.task = task;
     this.onSave = onSave;
     this.tempDate = task.dueDate || '';
+    this.tempStartDate = task.startDate || '';
+    this.tempTime = task.dueTime || '';
+    this.tempReminders = [...(task.reminders || [])];
     this.tempRecurType = task.recurrenceType || 'none';
     this.tempRecurValue = task.recurrenceValue || 1;
     this.tempRecurUntil = task.recurrenceUntil || '';
     this.tempUntilMode = this.tempRecurUntil ? 'until' : 'never';
+    this.tempPriority = task.priority || 'none';
   }
 
   onOpen() {
     const { contentEl } = this;
     contentEl.createEl("h2", { text: t('MODAL_EDIT_DATE_TITLE') });
 
+    new Setting(contentEl)
+      .setName(t('FIELD_START_DATE'))
+      .setDesc(t('FIELD_START_DATE_DESC'))
+      .addText(text => text
+        .setValue(this.tempStartDate)
+        .setPlaceholder('yyyy-mm-dd')
+        .onChange(value => {
+          this.tempStartDate = value;
+        })
+        .inputEl.type = 'date'
+      );
+
     new Setting(contentEl)
       .setName(t('FIELD_DUE_DATE'))
       .addText(text => text
@@ -1507,6 +4568,43 @@ class TaskDateModal extends Modal {
         .inputEl.type = 'date'
       );
 
+    new Setting(contentEl)
+      .setName(t('FIELD_DUE_TIME'))
+      .addText(text => text
+        .setValue(this.tempTime)
+        .setPlaceholder('hh:mm')
+        .onChange(value => {
+          this.tempTime = value;
+        })
+        .inputEl.type = 'time'
+      );
+
+    const reminderSetting = new Setting(contentEl)
+      .setName(t('FIELD_REMINDERS'))
+      .setDesc(t('FIELD_REMINDERS_DESC'));
+    const reminderOptions = reminderSetting.controlEl.createDiv({ cls: 'stb-reminder-options' });
+    REMINDER_OFFSETS.forEach(offset => {
+      const label = reminderOptions.createEl('label');
+      const checkbox = label.createEl('input', { type: 'checkbox' });
+      checkbox.checked = this.tempReminders.includes(offset);
+      label.appendText(formatReminderOffset(offset));
+      checkbox.addEventListener('change', () => {
+        this.tempReminders = this.tempReminders.filter(existing => existing !== offset);
+        if (checkbox.checked) this.tempReminders.push(offset);
+      });
+    });
+
+    new Setting(contentEl)
+      .setName(t('FIELD_PRIORITY'))
+      .addDropdown(dropdown => {
+        (['none', ...PRIORITIES] as (TaskPriority | 'none')[]).forEach(level => dropdown.addOption(level, t(PRIORITY_KEYS[level])));
+        dropdown
+          .setValue(this.tempPriority)
+          .onChange(value => {
+            this.tempPriority = value as TaskPriority | 'none';
+          });
+      });
+
     new Setting(contentEl)
       .setName(t('FIELD_RECURRENCE'))
       .addDropdown(dropdown => dropdown
@@ -1587,13 +4685,26 @@ class TaskDateModal extends Modal {
             }
           }
 
+          if (this.tempStartDate && this.tempDate && this.tempStartDate > this.tempDate) {
+            new Notice(t('ERR_START_AFTER_DUE'));
+            return;
+          }
+          if (!this.tempDate && (this.tempTime || this.tempReminders.length > 0)) {
+            new Notice(t('ERR_DUE_DATE_REQ'));
+            return;
+          }
+
           const finalUntil = this.tempUntilMode === 'until' ? this.tempRecurUntil : undefined;
 
           this.onSave({
+            startDate: this.tempStartDate || undefined,
             dueDate: this.tempDate,
+            dueTime: this.tempTime || undefined,
+            reminders: this.tempReminders.length > 0 ? this.tempReminders.sort((a, b) => b - a) : undefined,
             recurrenceType: this.tempRecurType,
             recurrenceValue: this.tempRecurValue,
-            recurrenceUntil: finalUntil
+            recurrenceUntil: finalUntil,
+            priority: this.tempPriority === 'none' ? undefined : this.tempPriority
           });
           this.close();
         })
@@ -1671,21 +4782,31 @@ class ScratchpadModal extends Modal {
   }
 }
 
+// Picks the file of an existing shared source, or adds a new source (and switches to it) when `source` is null
 class SharedSetupModal extends Modal {
   plugin: SimpleTasksBlocksPlugin;
+  source: SharedSource | null;
+  onDone?: () => void;
 
-  constructor(app: App, plugin: SimpleTasksBlocksPlugin) {
+  constructor(app: App, plugin: SimpleTasksBlocksPlugin, source: SharedSource | null = null, onDone?: () => void) {
     super(app);
     this.plugin = plugin;
+    this.source = source;
+    this.onDone = onDone;
   }
 
   onOpen() {
     const { contentEl } = this;
     contentEl.createEl("h2", { text: t('MODAL_SHARED_SETUP_TITLE') });
+    const nameDiv = contentEl.createDiv({ cls: 'stb-modal-field' });
+    nameDiv.createEl("label", { text: t('FIELD_SOURCE_NAME') });
+    const nameInput = nameDiv.createEl("input", { type: "text" });
+    nameInput.value = this.source?.name || '';
+    nameInput.setCssProps({ width: '100%' });
     const pathDiv = contentEl.createDiv({ cls: 'stb-modal-field' });
     pathDiv.createEl("label", { text: t('FIELD_SHARED_PATH') });
     const pathInput = pathDiv.createEl("input", { type: "text" });
-    pathInput.value = this.plugin.settings.sharedFilePath || '';
+    pathInput.value = this.source?.filePath || '';
     pathInput.disabled = true;
     pathInput.setCssProps({ width: '100%' });
     const buttonDiv = contentEl.createDiv({ cls: 'stb-modal-actions' });
@@ -1696,10 +4817,18 @@ class SharedSetupModal extends Modal {
 
     const handleFileSelection = async (filePath: string) => {
       pathInput.value = filePath;
-      this.plugin.settings.sharedFilePath = filePath;
+      const name = nameInput.value.trim() || sourceNameFromPath(filePath);
+      if (this.source) {
+        this.source.name = name;
+        this.source.filePath = filePath;
+      } else {
+        const source: SharedSource = { id: newId(), name, filePath };
+        this.plugin.settings.sharedSources.push(source);
+        this.plugin.settings.activeContext = sharedContext(source.id);
+      }
       await this.plugin.saveSettings();
       this.close();
-      this.plugin.refreshViews();
+      this.onDone?.();
       new Notice(t('NOTICE_SHARED_ENABLED', filePath));
     };
 
@@ -1783,8 +4912,7 @@ class SharedSetupModal extends Modal {
           });
 
           if (!result.canceled && result.filePath) {
-            const fs = await import('fs');
-            fs.writeFileSync(result.filePath, JSON.stringify({ categories: [] }, null, 2));
+            writeSharedFile(result.filePath, emptySharedData());
             await handleFileSelection(result.filePath);
           }
         } catch (e) {
@@ -1804,6 +4932,209 @@ class SharedSetupModal extends Modal {
   }
 }
 
+class SharedRecoveryModal extends Modal {
+  plugin: SimpleTasksBlocksPlugin;
+  recovery: SharedRecovery;
+
+  constructor(app: App, plugin: SimpleTasksBlocksPlugin, recovery: SharedRecovery) {
+    super(app);
+    this.plugin = plugin;
+    this.recovery = recovery;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: t('MODAL_RECOVERY_TITLE') });
+    contentEl.createEl("p", { text: t('MSG_RECOVERY_DESC', this.recovery.filePath) });
+    contentEl.createEl("p", { text: t('MSG_RECOVERY_QUARANTINE', this.recovery.quarantinePath), cls: 'stb-recovery-path' });
+
+    const problemList = contentEl.createEl("ul", { cls: 'stb-recovery-problems' });
+    this.recovery.problems.slice(0, 10).forEach(problem => problemList.createEl("li", { text: problem }));
+    if (this.recovery.problems.length > 10) {
+      problemList.createEl("li", { text: t('MSG_AND_MORE_PROBLEMS', (this.recovery.problems.length - 10).toString()) });
+    }
+
+    const buttonDiv = contentEl.createDiv({ cls: 'stb-modal-actions' });
+    const repairBtn = buttonDiv.createEl("button", { text: t('BTN_REPAIR'), cls: "mod-cta" });
+    const restoreBtn = buttonDiv.createEl("button", { text: t('BTN_RESTORE_BACKUP') });
+    const resetBtn = buttonDiv.createEl("button", { text: t('BTN_REINITIALIZE'), cls: "mod-warning" });
+
+    const run = async (action: 'repair' | 'restore' | 'reinitialize') => {
+      if (await this.plugin.resolveSharedRecovery(this.recovery.filePath, action)) this.close();
+    };
+
+    repairBtn.addEventListener("click", () => void run('repair'));
+    restoreBtn.addEventListener("click", () => void run('restore'));
+    resetBtn.addEventListener("click", () => {
+      new ConfirmModal(this.app, t('CONFIRM_REINITIALIZE'), () => void run('reinitialize')).open();
+    });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+class SnapshotPreviewModal extends Modal {
+  plugin: SimpleTasksBlocksPlugin;
+  snapshot: Snapshot;
+  onRestore: () => void;
+
+  constructor(app: App, plugin: SimpleTasksBlocksPlugin, snapshot: Snapshot, onRestore: () => void) {
+    super(app);
+    this.plugin = plugin;
+    this.snapshot = snapshot;
+    this.onRestore = onRestore;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.addClass('stb-snapshot-modal');
+    contentEl.createEl("h2", { text: t('MODAL_BACKUP_TITLE', moment(this.snapshot.createdAt).format('LLL')) });
+
+    const restore = (categoryId?: string) => {
+      new ConfirmModal(this.app, categoryId ? t('CONFIRM_RESTORE_CATEGORY') : t('CONFIRM_RESTORE_ALL'), () => {
+        void (async () => {
+          await this.plugin.restoreSnapshot(this.snapshot, categoryId);
+          this.onRestore();
+          this.close();
+        })();
+      }).open();
+    };
+
+    const list = contentEl.createDiv({ cls: 'stb-snapshot-list' });
+    this.snapshot.categories.forEach(category => {
+      const block = list.createDiv({ cls: 'stb-snapshot-category' });
+      const header = block.createDiv({ cls: 'stb-snapshot-category-header' });
+      header.createEl("strong", { text: category.name });
+      const restoreBtn = header.createEl("button", { text: t('BTN_RESTORE_CATEGORY') });
+      restoreBtn.addEventListener("click", () => restore(category.id));
+
+      const tasks = block.createEl("ul");
+      category.tasks.forEach(task => {
+        const item = tasks.createEl("li", { text: task.text });
+        if (task.completed) item.addClass('is-completed');
+      });
+    });
+
+    const buttonDiv = contentEl.createDiv({ cls: 'stb-modal-actions' });
+    const restoreAllBtn = buttonDiv.createEl("button", { text: t('BTN_RESTORE_ALL'), cls: "mod-warning" });
+    const cancelBtn = buttonDiv.createEl("button", { text: t('BTN_CANCEL') });
+    restoreAllBtn.addEventListener("click", () => restore());
+    cancelBtn.addEventListener("click", () => this.close());
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+// Time recorded in the stores shown, per category and task, within a date range. Archived tasks count too.
+class TimeReportModal extends Modal {
+  plugin: SimpleTasksBlocksPlugin;
+  fromDate = window.moment().startOf('month').format('YYYY-MM-DD');
+  toDate = window.moment().format('YYYY-MM-DD');
+
+  constructor(app: App, plugin: SimpleTasksBlocksPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.addClass('stb-report-modal');
+    contentEl.createEl("h2", { text: t('COMMAND_TIME_REPORT') });
+
+    const dates = contentEl.createDiv({ cls: 'stb-archive-dates' });
+    dates.createEl('label', { text: t('FIELD_FROM') });
+    const fromInput = dates.createEl('input', { type: 'date' });
+    fromInput.value = this.fromDate;
+    dates.createEl('label', { text: t('FIELD_TO') });
+    const toInput = dates.createEl('input', { type: 'date' });
+    toInput.value = this.toDate;
+
+    const results = contentEl.createDiv({ cls: 'stb-report-results' });
+    const update = () => {
+      this.fromDate = fromInput.value;
+      this.toDate = toInput.value;
+      this.renderReport(results);
+    };
+    fromInput.addEventListener('change', update);
+    toInput.addEventListener('change', update);
+    this.renderReport(results);
+
+    const buttonDiv = contentEl.createDiv({ cls: 'stb-modal-actions' });
+    const exportBtn = buttonDiv.createEl("button", { text: t('BTN_EXPORT_CSV'), cls: "mod-cta" });
+    exportBtn.addEventListener("click", () => void this.exportReport());
+  }
+
+  // One row per task with time in the range, grouped by category name
+  getRows(): { source: string; category: string; task: string; ms: number }[] {
+    const from = this.fromDate ? window.moment(this.fromDate).startOf('day').valueOf() : 0;
+    const to = this.toDate ? window.moment(this.toDate).endOf('day').valueOf() : Infinity;
+    const now = Date.now();
+    const rows: { source: string; category: string; task: string; ms: number }[] = [];
+    this.plugin.getViewContexts().forEach(context => {
+      const source = this.plugin.getContextLabel(context);
+      const store = this.plugin.getBaseStore(context);
+      const tasks = [
+        ...store.load().flatMap(category => category.tasks.map(task => ({ category: category.name, task }))),
+        ...store.loadSections().archive.map(entry => ({ category: entry.categoryName, task: entry.task }))
+      ];
+      tasks.forEach(({ category, task }) => {
+        const ms = getTrackedTime(task, now, from, to);
+        if (ms > 0) rows.push({ source, category, task: task.text, ms });
+      });
+    });
+    return rows.sort((a, b) => a.category.localeCompare(b.category) || b.ms - a.ms);
+  }
+
+  renderReport(container: HTMLElement) {
+    container.empty();
+    const rows = this.getRows();
+    if (rows.length === 0) {
+      container.createEl('p', { text: t('MSG_REPORT_EMPTY'), cls: 'stb-trash-empty' });
+      return;
+    }
+    const categories = Array.from(new Set(rows.map(row => row.category)));
+    categories.forEach(category => {
+      const categoryRows = rows.filter(row => row.category === category);
+      const header = container.createDiv({ cls: 'stb-report-category' });
+      header.createEl('strong', { text: category });
+      header.createSpan({ text: formatDuration(categoryRows.reduce((sum, row) => sum + row.ms, 0)) });
+      const list = container.createEl('ul');
+      categoryRows.forEach(row => list.createEl('li', { text: `${row.task} (${formatDuration(row.ms)})` }));
+    });
+    const total = container.createDiv({ cls: 'stb-report-category stb-report-total' });
+    total.createEl('strong', { text: t('LABEL_TOTAL') });
+    total.createSpan({ text: formatDuration(rows.reduce((sum, row) => sum + row.ms, 0)) });
+  }
+
+  // Writes the report as a CSV file at the vault root, replacing an earlier export of the same range
+  async exportReport() {
+    const rows = this.getRows();
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const lines = ['Source,Category,Task,Hours', ...rows.map(row =>
+      [quote(row.source), quote(row.category), quote(row.task), (row.ms / 3600000).toFixed(2)].join(','))];
+    const filePath = normalizePath(`time-report-${this.fromDate || 'start'}-${this.toDate || 'now'}.csv`);
+    try {
+      const existing = this.app.vault.getAbstractFileByPath(filePath);
+      if (existing instanceof TFile) await this.app.vault.modify(existing, lines.join('\n'));
+      else await this.app.vault.create(filePath, lines.join('\n'));
+      new Notice(t('NOTICE_REPORT_EXPORTED', filePath));
+    } catch (e) {
+      new Notice(t('ERR_EXPORT_REPORT', String(e)));
+    }
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
 class ConfirmModal extends Modal {
   message: string;
   onConfirm: () => void;